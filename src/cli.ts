@@ -11,6 +11,7 @@ import { CallToolRequest, ListToolsRequest } from '@modelcontextprotocol/sdk/typ
 import { createDefaultLogger, LogLevel } from './utils/logger.js';
 import 'dotenv/config';
 import { createClients, getConnectedClient } from './client.js';
+import { routeTable } from './core/route-table.js';
 
 const logger = createDefaultLogger({
   dirPath: process.env.MCP_PROXY_LOG_DIRECTORY_PATH,
@@ -24,10 +25,18 @@ async function handleListCommand(config: Config) {
     method: 'tools/list',
   };
   const connectedClients = getConnectedClient();
-  const result = await handleListToolsRequest(request, connectedClients, config.mcpServers || {}, {
-    mcpServers: config.mcpServers || {},
-    tools: config.tools,
-  });
+  const result = await handleListToolsRequest(
+    request,
+    connectedClients,
+    config.mcpServers || {},
+    {
+      mcpServers: config.mcpServers || {},
+      tools: config.tools,
+    },
+    config.timeout,
+    config.toolCacheTtl,
+    config
+  );
   console.log(JSON.stringify(result, null, 2));
 }
 
@@ -189,7 +198,7 @@ async function main() {
     .description('List available tools')
     .action(async () => {
       const config = await loadConfig();
-      await createClients(config.mcpServers);
+      await createClients(config.mcpServers, config);
       await handleListCommand(config);
       process.exit(0);
     });
@@ -202,8 +211,8 @@ async function main() {
     .option('-o, --output-dir <dir>', 'Save output to a directory')
     .action(async (toolName, args, options) => {
       const config = await loadConfig();
-      await createClients(config.mcpServers);
-      await handleListCommand(config);
+      await createClients(config.mcpServers, config);
+      await routeTable.build(config);
       await handleCallCommand(toolName, args, options, config);
       process.exit(0);
     });
@@ -213,7 +222,7 @@ async function main() {
   } else {
     // Interactive mode
     const config = await loadConfig();
-    await createClients(config.mcpServers);
+    await createClients(config.mcpServers, config);
     await handleListCommand(config);
     console.log('Entered interactive mode. Type "help" for available commands.');
 
@@ -3,8 +3,17 @@ import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
-import { ServerConfig } from './config.js';
+import { Config, ServerConfig } from './config.js';
+import { forwardClientRequests } from './core/client-request-forwarding.js';
+import { forwardNotifications } from './core/notification-forwarding.js';
 import { clientMaps } from './mappers/client-maps.js';
+import { ClientSupervisor, resolveHealthCheckOptions } from './services/client-supervisor.js';
+import { logLevelService } from './services/log-level-service.js';
+import { resourceSubscriptionService } from './services/resource-subscription-service.js';
+import { serverStatusService } from './services/server-status-service.js';
+import { toolCatalogService } from './services/tool-catalog-service.js';
+import { computeBackoffDelay } from './utils/backoff-utils.js';
+import { resolveRetryOptions, RetryOptions } from './utils/retry-utils.js';
 import { FetchLike } from 'eventsource';
 
 const sleep = (time: number) => new Promise<void>((resolve) => setTimeout(() => resolve(), time));
@@ -16,11 +25,10 @@ export interface ConnectedClient {
   name: string;
 }
 
-// Connection retry configuration
-const CONNECTION_RETRY_CONFIG = {
-  waitFor: 2500,
-  retries: 3,
-};
+/**
+ * Hub-wide settings that apply to every backend connection
+ */
+export type ClientDefaults = Pick<Config, 'healthCheck' | 'retry'>;
 
 const createClient = (
   serverName: string,
@@ -89,18 +97,12 @@ const createClient = (
     return { transport: undefined, client: undefined };
   }
 
-  const client = new Client(
-    {
-      name: 'mcp-proxy-client',
-      version: '1.0.0',
-    },
-    {
-      capabilities: {
-        roots: {},
-        sampling: {},
-      },
-    }
-  );
+  const client = new Client({
+    name: 'mcp-proxy-client',
+    version: '1.0.0',
+  });
+  forwardNotifications(client, serverName);
+  forwardClientRequests(client, serverName, config.clientFeatures);
 
   return { client, transport };
 };
@@ -109,15 +111,17 @@ const createClient = (
  * Attempts to connect to an MCP server with retry logic
  * @param serverName The name of the server to connect to
  * @param config Server transport configuration
+ * @param retryOptions Number of attempts and backoff between them
  * @param onConnect Callback function to execute on successful connection
  * @returns The connected client or null if connection failed
  */
 const connectWithRetry = async (
   serverName: string,
   config: ServerConfig,
+  retryOptions: RetryOptions,
   onConnect: (client: Client, transport: Transport) => Promise<ConnectedClient>
 ): Promise<ConnectedClient | null> => {
-  const { waitFor, retries } = CONNECTION_RETRY_CONFIG;
+  const { retries } = retryOptions;
   let count = 0;
   let retry = true;
 
@@ -134,14 +138,16 @@ const connectWithRetry = async (
       return await onConnect(client, transport);
     } catch (error) {
       console.error(`Failed to connect to ${serverName}:`, error);
+      serverStatusService.recordError(serverName, error);
       count++;
       retry = count < retries;
+      try {
+        await client.close();
+      } catch {
+        /* empty */
+      }
       if (retry) {
-        try {
-          await client.close();
-        } catch {
-          /* empty */
-        }
+        const waitFor = computeBackoffDelay(count - 1, retryOptions);
         console.log(`Retry connect to ${serverName} in ${waitFor}ms (${count}/${retries})`);
         await sleep(waitFor);
       }
@@ -151,6 +157,63 @@ const connectWithRetry = async (
   return null;
 };
 
+/**
+ * Wraps a freshly connected client and starts supervising it.
+ * When the supervisor re-establishes a lost connection, the replacement is
+ * wrapped the same way and swapped into clientMaps.
+ */
+const superviseConnection = (
+  serverName: string,
+  config: ServerConfig,
+  defaults: ClientDefaults | undefined,
+  client: Client,
+  transport: Transport
+): ConnectedClient => {
+  const supervisor: ClientSupervisor = new ClientSupervisor(
+    serverName,
+    client,
+    resolveHealthCheckOptions(defaults?.healthCheck, config.healthCheck),
+    async () => {
+      // The supervisor does its own backoff, so each reconnection is a single attempt
+      const reconnected = await connectWithRetry(
+        serverName,
+        config,
+        { ...resolveRetryOptions(defaults?.retry, config.retry), retries: 1 },
+        async (newClient, newTransport) => {
+          if (supervisor.isCancelled()) {
+            await newTransport.close();
+            throw new Error(`Server ${serverName} was stopped while reconnecting`);
+          }
+          const newConnectedClient = superviseConnection(
+            serverName,
+            config,
+            defaults,
+            newClient,
+            newTransport
+          );
+          clientMaps.updateConnectedClient(serverName, newConnectedClient);
+          void resourceSubscriptionService.restore(newConnectedClient);
+          void logLevelService.restore(newConnectedClient);
+          toolCatalogService.invalidate(serverName);
+          return newConnectedClient;
+        }
+      );
+      return reconnected !== null;
+    }
+  );
+
+  supervisor.start();
+
+  return {
+    client,
+    name: serverName,
+    cleanup: async () => {
+      supervisor.cancel();
+      await transport.close();
+    },
+  };
+};
+
 export const getConnectedClient = (): ConnectedClient[] => {
   const clients = clientMaps.getAllClients();
   if (!clients) {
@@ -161,7 +224,8 @@ export const getConnectedClient = (): ConnectedClient[] => {
 };
 
 export const createClients = async (
-  mcpServers: Record<string, ServerConfig>
+  mcpServers: Record<string, ServerConfig>,
+  defaults?: ClientDefaults
 ): Promise<ConnectedClient[]> => {
   const connectToServer = async (
     serverName: string,
@@ -174,21 +238,34 @@ export const createClients = async (
     }
 
     console.log(`Connecting to server: ${serverName}`);
+    serverStatusService.markConnecting(serverName);
 
-    return connectWithRetry(serverName, config, async (client, transport) => {
-      const connectedClient = {
-        client,
-        name: serverName,
-        cleanup: async () => {
-          await transport.close();
-        },
-      };
+    const connectedClient = await connectWithRetry(
+      serverName,
+      config,
+      resolveRetryOptions(defaults?.retry, config.retry),
+      async (client, transport) => {
+        const connectedClient = superviseConnection(
+          serverName,
+          config,
+          defaults,
+          client,
+          transport
+        );
 
-      // Register the client in the clientMaps
-      clientMaps.addConnectedClient(connectedClient);
+        // Register the client in the clientMaps
+        clientMaps.addConnectedClient(connectedClient);
+        void logLevelService.restore(connectedClient);
+        toolCatalogService.invalidate(serverName);
 
-      return connectedClient;
-    });
+        return connectedClient;
+      }
+    );
+
+    if (!connectedClient) {
+      serverStatusService.markFailed(serverName);
+    }
+    return connectedClient;
   };
 
   // 並列で各サーバーへの接続を実行
@@ -207,11 +284,13 @@ export const createClients = async (
  * Restarts a specific client by disconnecting and reconnecting
  * @param serverName The name of the server to restart
  * @param config Server transport configuration
+ * @param defaults Hub-wide connection settings
  * @returns The reconnected client or null if reconnection failed
  */
 export const restartClient = async (
   serverName: string,
-  config: ServerConfig
+  config: ServerConfig,
+  defaults?: ClientDefaults
 ): Promise<ConnectedClient | null> => {
   // Check if server is enabled (default to true if not specified)
   if (config.enable === false) {
@@ -238,18 +317,55 @@ export const restartClient = async (
   }
 
   // Try to reconnect
-  return connectWithRetry(serverName, config, async (client, transport) => {
-    const newConnectedClient: ConnectedClient = {
-      client,
-      name: serverName,
-      cleanup: async () => {
-        await transport.close();
-      },
-    };
-
-    // Update the client in clientMaps
-    clientMaps.updateConnectedClient(serverName, newConnectedClient);
-
-    return newConnectedClient;
-  });
+  serverStatusService.markConnecting(serverName);
+  const newConnectedClient = await connectWithRetry(
+    serverName,
+    config,
+    resolveRetryOptions(defaults?.retry, config.retry),
+    async (client, transport) => {
+      const newConnectedClient = superviseConnection(
+        serverName,
+        config,
+        defaults,
+        client,
+        transport
+      );
+
+      // Update the client in clientMaps
+      clientMaps.updateConnectedClient(serverName, newConnectedClient);
+      void resourceSubscriptionService.restore(newConnectedClient);
+      void logLevelService.restore(newConnectedClient);
+      toolCatalogService.invalidate(serverName);
+
+      return newConnectedClient;
+    }
+  );
+
+  if (!newConnectedClient) {
+    serverStatusService.markFailed(serverName);
+  }
+  return newConnectedClient;
+};
+
+/**
+ * Disconnects a client and removes it from clientMaps
+ * @param serverName The name of the server to stop
+ */
+export const stopClient = async (serverName: string): Promise<void> => {
+  serverStatusService.remove(serverName);
+
+  const connectedClient = clientMaps.getClientByName(serverName);
+  if (!connectedClient) {
+    return;
+  }
+
+  clientMaps.removeConnectedClient(serverName);
+  toolCatalogService.invalidate(serverName);
+
+  try {
+    await connectedClient.cleanup();
+    console.log(`Disconnected from server: ${serverName}`);
+  } catch (error) {
+    console.error(`Error closing connection to ${serverName}:`, error);
+  }
 };
@@ -0,0 +1,386 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatConfigIssue,
+  formatConfigPath,
+  parseConfig,
+  validateConfig,
+} from './config-schema.js';
+
+describe('config-schema', () => {
+  describe('validateConfig', () => {
+    it('should accept a valid config with every server type', () => {
+      const result = validateConfig({
+        mcpServers: {
+          local: {
+            command: 'node',
+            args: ['server.js'],
+            exposedTools: ['a', { original: 'b', exposed: 'c' }],
+          },
+          explicit: { type: 'stdio', command: 'node' },
+          remote: { type: 'sse', url: 'http://localhost:3000/sse', headers: { A: 'b' } },
+          http: { type: 'streamable-http', url: 'http://localhost:3000/mcp', timeout: 0 },
+        },
+        envVars: [{ name: 'A', value: 'b', expand: true }],
+        serverTransport: {
+          type: 'streamable-http',
+          port: 3006,
+          auth: { type: 'bearer', token: 't' },
+        },
+        tools: { custom: { description: 'd', subtools: { local: { tools: [{ name: 'a' }] } } } },
+        timeout: 30,
+      });
+
+      expect(result).toEqual({ errors: [], warnings: [] });
+    });
+
+    it('should report an invalid server type with the allowed values', () => {
+      const { errors } = validateConfig({
+        mcpServers: { github: { type: 'http', url: 'http://localhost' } },
+      });
+
+      expect(errors).toEqual([
+        { path: 'mcpServers.github.type', message: "expected 'sse' | 'streamable-http' | 'stdio'" },
+      ]);
+    });
+
+    it('should report missing required fields', () => {
+      const { errors } = validateConfig({ mcpServers: { remote: { type: 'sse' } } });
+
+      expect(errors).toEqual([
+        { path: 'mcpServers.remote.url', message: 'is required (expected string)' },
+      ]);
+    });
+
+    it('should report errors inside tool mappings', () => {
+      const { errors } = validateConfig({
+        mcpServers: { local: { command: 'node', exposedTools: ['a', { original: 'b' }] } },
+      });
+
+      expect(errors).toEqual([
+        {
+          path: 'mcpServers.local.exposedTools[1].exposed',
+          message: 'is required (expected string)',
+        },
+      ]);
+    });
+
+    it('should report unknown keys as warnings', () => {
+      const { errors, warnings } = validateConfig({
+        mcpServers: { local: { command: 'node', exposedTool: ['a'] } },
+        timout: 30,
+      });
+
+      expect(errors).toEqual([]);
+      expect(warnings.map((w) => w.path).sort()).toEqual([
+        'mcpServers.local.exposedTool',
+        'timout',
+      ]);
+      expect(warnings[0].message).toBe('unknown key');
+    });
+
+    it('should validate retry settings', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          local: { command: 'node', retry: { retries: 5, factor: 2 } },
+          remote: { type: 'sse', url: 'http://localhost', retry: { retries: 0 } },
+        },
+        retry: { initialDelayMs: 1000, jitter: 2 },
+      });
+
+      expect(errors.map((e) => e.path)).toEqual([
+        'mcpServers.remote.retry.retries',
+        'retry.jitter',
+      ]);
+    });
+
+    it('should validate client features', () => {
+      const { errors, warnings } = validateConfig({
+        mcpServers: {
+          local: { command: 'node', clientFeatures: { sampling: false, roots: 'no' } },
+          remote: { type: 'sse', url: 'http://localhost', clientFeatures: { completion: true } },
+        },
+      });
+
+      expect(errors.map((e) => e.path)).toEqual(['mcpServers.local.clientFeatures.roots']);
+      expect(warnings.map((w) => w.path)).toEqual(['mcpServers.remote.clientFeatures.completion']);
+    });
+
+    it('should reject a negative tool cache TTL', () => {
+      const { errors } = validateConfig({ mcpServers: {}, toolCacheTtl: -1 });
+
+      expect(errors.map((e) => e.path)).toEqual(['toolCacheTtl']);
+    });
+
+    it('should accept tool namespaces and reject unknown conflict policies', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: { command: 'a', toolNamespace: { prefix: 'gh' } },
+          b: { command: 'b', toolNamespace: 'prefix' },
+        },
+        toolNamespace: 'server',
+        toolConflictPolicy: 'last-wins',
+      });
+
+      expect(errors.map((e) => e.path)).toEqual([
+        'mcpServers.b.toolNamespace',
+        'toolConflictPolicy',
+      ]);
+    });
+
+    it('should reject tool patterns that are not valid regular expressions', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: {
+            command: 'a',
+            exposedTools: ['read_*', { original: '/^gh_(.*)$/', exposed: '$1' }],
+            hiddenTools: ['/[/'],
+          },
+        },
+      });
+
+      expect(errors).toEqual([
+        {
+          path: 'mcpServers.a.hiddenTools[0]',
+          message: 'invalid regular expression: /[/: Unterminated character class',
+        },
+      ]);
+    });
+
+    it('should reject a glob rename without a wildcard in the exposed name', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: {
+            command: 'a',
+            exposedTools: [
+              { original: 'delete_*', exposed: 'remove' },
+              { original: 'get_*', exposed: 'fetch_*' },
+              { original: 'search', exposed: 'find' },
+            ],
+          },
+        },
+      });
+
+      expect(errors).toEqual([
+        {
+          path: 'mcpServers.a.exposedTools[0].exposed',
+          message: 'must contain * or ? to rename the tools matching delete_* apart',
+        },
+      ]);
+    });
+
+    it('should accept description, schema and annotation overrides in tool mappings', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: {
+            command: 'a',
+            exposedTools: [
+              {
+                original: 'search',
+                exposed: 'search',
+                description: 'Find issues',
+                descriptionMode: 'append',
+                inputSchema: { remove: ['limit'], properties: { query: { type: 'string' } } },
+                annotations: { readOnlyHint: true },
+              },
+              { original: 'b', exposed: 'b', descriptionMode: 'merge' },
+            ],
+          },
+        },
+      });
+
+      expect(errors.map((e) => e.path)).toEqual(['mcpServers.a.exposedTools[1].descriptionMode']);
+    });
+
+    it('should accept fixed and default arguments in tool mappings', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: {
+            command: 'a',
+            exposedTools: [
+              {
+                original: 'search',
+                exposed: 'search',
+                fixedArgs: { owner: 'acme' },
+                defaultArgs: { limit: 10 },
+              },
+              { original: 'b', exposed: 'b', fixedArgs: ['owner'] },
+            ],
+          },
+        },
+      });
+
+      expect(errors.map((e) => e.path)).toEqual(['mcpServers.a.exposedTools[1].fixedArgs']);
+    });
+
+    it('should accept only off, warn and enforce for validateArgs', () => {
+      const { errors } = validateConfig({
+        mcpServers: {
+          a: { command: 'a', validateArgs: 'enforce' },
+          b: { type: 'sse', url: 'http://localhost', validateArgs: 'strict' },
+        },
+      });
+
+      expect(errors.map((e) => e.path)).toEqual(['mcpServers.b.validateArgs']);
+    });
+
+    it('should attach line numbers when the source text is given', () => {
+      const text = '{\n  "mcpServers": {\n    "a": { "command": 1 }\n  }\n}';
+      const { errors } = validateConfig(JSON.parse(text), text);
+
+      expect(errors).toEqual([
+        {
+          path: 'mcpServers.a.command',
+          message: 'expected string, received number',
+          line: 3,
+          column: 12,
+        },
+      ]);
+    });
+  });
+
+  describe('parseConfig', () => {
+    it('should return the config unchanged when valid', () => {
+      const text = JSON.stringify({ mcpServers: { a: { command: 'node' } }, timeout: 5 });
+
+      const result = parseConfig(text);
+
+      expect(result.errors).toEqual([]);
+      expect(result.config).toEqual({ mcpServers: { a: { command: 'node' } }, timeout: 5 });
+    });
+
+    it('should drop invalid server entries and keep the rest', () => {
+      const text = JSON.stringify({
+        mcpServers: { bad: { type: 'sse' }, good: { command: 'node' } },
+      });
+
+      const result = parseConfig(text);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.config?.mcpServers).toEqual({ good: { command: 'node' } });
+    });
+
+    it('should drop an invalid server whose name contains dots', () => {
+      const text = JSON.stringify({
+        mcpServers: { 'a.b': { type: 'sse', url: 1 }, a: { command: 'node' } },
+      });
+
+      const result = parseConfig(text);
+
+      expect(result.errors.map((e) => e.path)).toEqual(['mcpServers.a.b.url']);
+      expect(result.config?.mcpServers).toEqual({ a: { command: 'node' } });
+    });
+
+    it('should drop invalid top-level settings and invalid custom tools', () => {
+      const text = JSON.stringify({
+        mcpServers: { a: { command: 'node' } },
+        timeout: 'x',
+        toolConflictPolicy: 'bogus',
+        toolNamespace: 'server',
+        tools: {
+          bad: { subtools: {} },
+          good: { description: 'd', subtools: { a: { tools: [] } } },
+        },
+      });
+
+      const result = parseConfig(text);
+
+      expect(result.errors.map((e) => e.path).sort()).toEqual([
+        'timeout',
+        'toolConflictPolicy',
+        'tools.bad.description',
+      ]);
+      expect(result.config).toEqual({
+        mcpServers: { a: { command: 'node' } },
+        toolNamespace: 'server',
+        tools: { good: { description: 'd', subtools: { a: { tools: [] } } } },
+      });
+    });
+
+    it('should drop only the invalid setting and keep its siblings, including auth', () => {
+      const auth = { type: 'bearer', token: 't' };
+      const text = JSON.stringify({
+        mcpServers: {},
+        serverTransport: {
+          type: 'streamable-http',
+          port: 3006,
+          auth,
+          maxSessions: '10',
+          eventStore: { type: 'bogus' },
+        },
+        envVars: [
+          { name: 'A', value: 'a' },
+          { name: 'B', value: 1 },
+        ],
+      });
+
+      const result = parseConfig(text);
+
+      expect(result.fatal).toBe(false);
+      expect(result.errors.map((e) => e.path).sort()).toEqual([
+        'envVars[1].value',
+        'serverTransport.eventStore.type',
+        'serverTransport.maxSessions',
+      ]);
+      expect(result.config).toEqual({
+        mcpServers: {},
+        serverTransport: { type: 'streamable-http', port: 3006, auth },
+        envVars: [{ name: 'A', value: 'a' }],
+      });
+    });
+
+    it('should refuse a config whose errors would drop auth', () => {
+      const invalidAuth = parseConfig(
+        JSON.stringify({
+          mcpServers: {},
+          serverTransport: { type: 'sse', auth: { type: 'basic', token: 't' } },
+        })
+      );
+      const invalidTransport = parseConfig(
+        JSON.stringify({
+          mcpServers: {},
+          serverTransport: { type: 'http', auth: { type: 'bearer', token: 't' } },
+        })
+      );
+
+      expect(invalidAuth).toMatchObject({ config: undefined, fatal: true });
+      expect(invalidTransport).toMatchObject({ config: undefined, fatal: true });
+    });
+
+    it('should drop unknown keys and default a missing server list', () => {
+      const result = parseConfig(JSON.stringify({ timout: 30 }));
+
+      expect(result.warnings.map((w) => w.path)).toEqual(['timout']);
+      expect(result.config).toEqual({ mcpServers: {} });
+    });
+
+    it('should report JSON syntax errors with their location', () => {
+      const result = parseConfig('{\n  "mcpServers": {,}\n}');
+
+      expect(result.config).toBeUndefined();
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toMatch(/^invalid JSON: /);
+      expect(result.errors[0].line).toBe(2);
+    });
+
+    it('should report a non-object config', () => {
+      const result = parseConfig('[]');
+
+      expect(result.config).toBeUndefined();
+      expect(result.errors[0].path).toBe('');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format paths with array indices', () => {
+      expect(formatConfigPath(['mcpServers', 'a', 'args', 0])).toBe('mcpServers.a.args[0]');
+      expect(formatConfigPath([])).toBe('');
+    });
+
+    it('should format issues with their location', () => {
+      expect(
+        formatConfigIssue({ path: 'timeout', message: 'bad', line: 3, column: 4 }, 'config.json')
+      ).toBe('timeout: bad (config.json:line 3, column 4)');
+      expect(formatConfigIssue({ path: '', message: 'bad' })).toBe('<root>: bad');
+    });
+  });
+});
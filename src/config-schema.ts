@@ -0,0 +1,492 @@
+import { z } from 'zod';
+import type { Config } from './config.js';
+import {
+  buildJsonLocationIndex,
+  findJsonLocation,
+  JsonPath,
+  locateJsonParseError,
+} from './utils/json-location-utils.js';
+import { isGlobPattern, toolPatternToRegExp } from './utils/tool-pattern-utils.js';
+
+/**
+ * A single problem found while validating a config file
+ */
+export type ConfigIssue = {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+};
+
+export type ConfigParseResult = {
+  config: Config | undefined;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+  /** Whether an error cannot be skipped, e.g. one in `serverTransport.auth` */
+  fatal: boolean;
+};
+
+const SERVER_TYPES = ['sse', 'streamable-http', 'stdio'] as const;
+
+/**
+ * Validates a value against the schema chosen by `select`.
+ * Used instead of z.union so that errors come from the branch the user
+ * obviously meant rather than a generic "Invalid input".
+ */
+function dispatch(select: (value: unknown) => z.ZodTypeAny | string) {
+  return z.unknown().superRefine((value, ctx) => {
+    const schema = select(value);
+    if (typeof schema === 'string') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: schema });
+      return;
+    }
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue(issue));
+    }
+  });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const envVarConfigSchema = z
+  .object({
+    name: z.string(),
+    value: z.string(),
+    expand: z.boolean().optional(),
+    unexpand: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * A tool name, glob or `/regular expression/` in exposedTools or hiddenTools
+ */
+const toolPatternSchema = z.string().superRefine((pattern, ctx) => {
+  try {
+    toolPatternToRegExp(pattern);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+const toolMappingSchema = z
+  .object({
+    original: toolPatternSchema,
+    exposed: z.string(),
+    description: z.string().optional(),
+    descriptionMode: z.enum(['replace', 'prepend', 'append']).optional(),
+    inputSchema: z
+      .object({
+        remove: z.array(z.string()).optional(),
+        properties: z.record(z.object({}).passthrough()).optional(),
+      })
+      .strict()
+      .optional(),
+    annotations: z
+      .object({
+        title: z.string().optional(),
+        readOnlyHint: z.boolean().optional(),
+        destructiveHint: z.boolean().optional(),
+        idempotentHint: z.boolean().optional(),
+        openWorldHint: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    fixedArgs: z.record(z.unknown()).optional(),
+    defaultArgs: z.record(z.unknown()).optional(),
+  })
+  .strict()
+  .superRefine((mapping, ctx) => {
+    // Without a wildcard every tool the glob matches would get the same name
+    if (isGlobPattern(mapping.original) && !/[*?]/.test(mapping.exposed)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['exposed'],
+        message: `must contain * or ? to rename the tools matching ${mapping.original} apart`,
+      });
+    }
+  });
+
+const exposedToolSchema = dispatch((value) =>
+  isObject(value) ? toolMappingSchema : toolPatternSchema
+);
+
+const toolNamespaceSchema = dispatch((value) =>
+  isObject(value) ? z.object({ prefix: z.string().min(1) }).strict() : z.enum(['none', 'server'])
+);
+
+const healthCheckConfigSchema = z
+  .object({
+    enable: z.boolean().optional(),
+    intervalMs: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    failureThreshold: z.number().int().positive().optional(),
+    reconnect: z
+      .object({
+        enable: z.boolean().optional(),
+        maxAttempts: z.number().int().nonnegative().optional(),
+        initialDelayMs: z.number().nonnegative().optional(),
+        maxDelayMs: z.number().nonnegative().optional(),
+        factor: z.number().min(1).optional(),
+        jitter: z.number().min(0).max(1).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const retryConfigSchema = z
+  .object({
+    retries: z.number().int().positive().optional(),
+    initialDelayMs: z.number().nonnegative().optional(),
+    maxDelayMs: z.number().nonnegative().optional(),
+    factor: z.number().min(1).optional(),
+    jitter: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+const clientFeaturesConfigSchema = z
+  .object({
+    sampling: z.boolean().optional(),
+    elicitation: z.boolean().optional(),
+    roots: z.boolean().optional(),
+    defaultClient: z.string().optional(),
+  })
+  .strict();
+
+const commonServerFields = {
+  env: z.record(z.string()).optional(),
+  exposedTools: z.array(exposedToolSchema).optional(),
+  hiddenTools: z.array(toolPatternSchema).optional(),
+  toolNamespace: toolNamespaceSchema.optional(),
+  validateArgs: z.enum(['off', 'warn', 'enforce']).optional(),
+  envVars: z.array(envVarConfigSchema).optional(),
+  enable: z.boolean().optional(),
+  required: z.boolean().optional(),
+  timeout: z.number().optional(),
+  healthCheck: healthCheckConfigSchema.optional(),
+  retry: retryConfigSchema.optional(),
+  clientFeatures: clientFeaturesConfigSchema.optional(),
+};
+
+const stdioServerSchema = z
+  .object({
+    type: z.literal('stdio').optional(),
+    command: z.string(),
+    args: z.array(z.string()).optional(),
+    ...commonServerFields,
+  })
+  .strict();
+
+const sseServerSchema = z
+  .object({
+    type: z.literal('sse'),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+    ...commonServerFields,
+  })
+  .strict();
+
+const streamableHttpServerSchema = z
+  .object({
+    type: z.literal('streamable-http'),
+    url: z.string().url(),
+    headers: z.record(z.string()).optional(),
+    ...commonServerFields,
+  })
+  .strict();
+
+const serverConfigSchema = dispatch((value) => {
+  if (!isObject(value)) {
+    return z.object({});
+  }
+  switch (value.type) {
+    case undefined:
+    case 'stdio':
+      return stdioServerSchema;
+    case 'sse':
+      return sseServerSchema;
+    case 'streamable-http':
+      return streamableHttpServerSchema;
+    default:
+      return z.object({ type: z.enum(SERVER_TYPES) }).passthrough();
+  }
+});
+
+const toolDefinitionSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+const toolConfigSchema = z
+  .object({
+    description: z.string(),
+    subtools: z.record(z.object({ tools: z.array(toolDefinitionSchema) }).strict()).optional(),
+  })
+  .strict();
+
+const eventRetentionFields = {
+  maxEvents: z.number().int().nonnegative().optional(),
+  maxAge: z.number().nonnegative().optional(),
+};
+
+const eventStoreConfigSchema = dispatch((value) => {
+  switch (isObject(value) ? value.type : undefined) {
+    case 'none':
+      return z.object({ type: z.literal('none') }).strict();
+    case 'memory':
+      return z.object({ type: z.literal('memory'), ...eventRetentionFields }).strict();
+    case 'file':
+      return z
+        .object({ type: z.literal('file'), path: z.string(), ...eventRetentionFields })
+        .strict();
+    default:
+      return z.object({ type: z.enum(['none', 'memory', 'file']) }).passthrough();
+  }
+});
+
+const serverTransportConfigSchema = z
+  .object({
+    type: z.enum(SERVER_TYPES),
+    port: z.number().int().positive().optional(),
+    host: z.string().optional(),
+    path: z.string().optional(),
+    auth: z
+      .object({
+        type: z.literal('bearer'),
+        token: z.string(),
+      })
+      .strict()
+      .optional(),
+    sessionIdleTimeout: z.number().nonnegative().optional(),
+    maxSessions: z.number().int().nonnegative().optional(),
+    sessionEviction: z.enum(['lru', 'reject']).optional(),
+    stateless: z.boolean().optional(),
+    eventStore: eventStoreConfigSchema.optional(),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    mcpServers: z.record(serverConfigSchema),
+    tools: z.record(toolConfigSchema).optional(),
+    envVars: z.array(envVarConfigSchema).optional(),
+    serverTransport: serverTransportConfigSchema.optional(),
+    timeout: z.number().optional(),
+    healthCheck: healthCheckConfigSchema.optional(),
+    retry: retryConfigSchema.optional(),
+    toolCacheTtl: z.number().nonnegative().optional(),
+    toolNamespace: z.enum(['none', 'server']).optional(),
+    toolConflictPolicy: z.enum(['error', 'first-wins', 'prefix-on-conflict']).optional(),
+  })
+  .strict();
+
+/**
+ * Formats a path as it would be written in JavaScript, e.g. `mcpServers.github.args[0]`
+ */
+export function formatConfigPath(path: JsonPath): string {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`;
+    }
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '');
+}
+
+const quote = (value: unknown) => `'${String(value)}'`;
+
+/**
+ * Produces a short, user-facing message for a zod issue
+ */
+function describeIssue(issue: z.ZodIssue): string {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined'
+        ? `is required (expected ${issue.expected})`
+        : `expected ${issue.expected}, received ${issue.received}`;
+    case z.ZodIssueCode.invalid_enum_value:
+      return `expected ${issue.options.map(quote).join(' | ')}`;
+    case z.ZodIssueCode.invalid_literal:
+      return `expected ${quote(issue.expected)}`;
+    default:
+      return issue.message.charAt(0).toLowerCase() + issue.message.slice(1);
+  }
+}
+
+/**
+ * Formats an issue as `path: message (line L, column C)`
+ */
+export function formatConfigIssue(issue: ConfigIssue, source?: string): string {
+  const location =
+    issue.line !== undefined
+      ? ` (${source ? `${source}:` : ''}line ${issue.line}, column ${issue.column})`
+      : '';
+  return `${issue.path || '<root>'}: ${issue.message}${location}`;
+}
+
+/**
+ * Turns zod issues into config issues.
+ * Unknown keys are reported as warnings; everything else is an error.
+ */
+function describeIssues(
+  issues: z.ZodIssue[],
+  text?: string
+): { errors: ConfigIssue[]; warnings: ConfigIssue[] } {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  const index = text !== undefined ? buildJsonLocationIndex(text) : undefined;
+  const withLocation = (path: JsonPath, message: string): ConfigIssue => {
+    const location = text !== undefined ? findJsonLocation(text, path, index) : undefined;
+    return { path: formatConfigPath(path), message, ...location };
+  };
+
+  for (const issue of issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      issue.keys.forEach((key) => warnings.push(withLocation([...issue.path, key], 'unknown key')));
+    } else {
+      errors.push(withLocation(issue.path, describeIssue(issue)));
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Validates an already parsed config value.
+ * Unknown keys are reported as warnings; everything else is an error.
+ * @param value The parsed config value
+ * @param text The original JSON text, used to attach line numbers
+ */
+export function validateConfig(
+  value: unknown,
+  text?: string
+): { errors: ConfigIssue[]; warnings: ConfigIssue[] } {
+  const result = configSchema.safeParse(value);
+  return describeIssues(result.success ? [] : result.error.issues, text);
+}
+
+/**
+ * Bearer authentication must never be dropped silently, since the hub would
+ * then serve without it
+ */
+const AUTH_PATH: JsonPath = ['serverTransport', 'auth'];
+
+const child = (node: unknown, segment: string | number): unknown =>
+  Array.isArray(node) ? node[Number(segment)] : isObject(node) ? node[segment] : undefined;
+
+const isPrefix = (prefix: JsonPath, path: JsonPath) =>
+  prefix.length <= path.length && prefix.every((segment, i) => segment === path[i]);
+
+/**
+ * The part of the config left out because of an error at `path`: the server or
+ * custom tool entry holding it, or else the innermost value present on the path,
+ * so that an invalid setting does not take its siblings along
+ */
+function invalidEntryPath(value: Record<string, unknown>, path: JsonPath): JsonPath {
+  const [field, name] = path;
+  if ((field === 'mcpServers' || field === 'tools') && name !== undefined) {
+    return [field, name];
+  }
+  let end = path.length;
+  while (end > 1 && path.slice(0, end).reduce<unknown>(child, value) === undefined) {
+    end--;
+  }
+  return path.slice(0, end);
+}
+
+/**
+ * Deletes the object key or array element at `path`
+ * @returns Whether there was a value to delete
+ */
+function deletePath(value: Record<string, unknown>, path: JsonPath): boolean {
+  const parent = path.slice(0, -1).reduce<unknown>(child, value);
+  const last = path[path.length - 1];
+  if (last === undefined || child(parent, last) === undefined) {
+    return false;
+  }
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else if (isObject(parent)) {
+    delete parent[last];
+  }
+  return true;
+}
+
+/**
+ * Removes what fails the schema, one error at a time, since removing an invalid
+ * value can leave its parent without a required key
+ * @returns The config, or undefined when it cannot be made valid, e.g. without
+ *   dropping bearer authentication
+ */
+function pruneConfig(value: Record<string, unknown>): Config | undefined {
+  for (;;) {
+    const result = configSchema.safeParse(value);
+    if (result.success) {
+      // The schema has checked each server, but dispatch leaves their type unknown
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return result.data as Config;
+    }
+
+    const paths = result.error.issues.flatMap((issue) =>
+      issue.code === z.ZodIssueCode.unrecognized_keys
+        ? issue.keys.map((key) => [...issue.path, key])
+        : []
+    );
+    const error = result.error.issues.find(
+      (issue) => issue.code !== z.ZodIssueCode.unrecognized_keys
+    );
+    if (error) {
+      const path = invalidEntryPath(value, error.path);
+      const hasAuth = AUTH_PATH.reduce<unknown>(child, value) !== undefined;
+      if (hasAuth && (isPrefix(path, AUTH_PATH) || isPrefix(AUTH_PATH, path))) {
+        return undefined;
+      }
+      paths.push(path);
+    }
+
+    const removed = paths.map((path) => deletePath(value, path));
+    if (!removed.includes(true)) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Parses and validates config file contents.
+ * Server and custom tool entries that fail validation are dropped from the
+ * returned config so that the rest can still be started. Any other invalid
+ * setting is dropped and takes its default, except in `serverTransport.auth`,
+ * where an error is fatal. Unknown keys are dropped as well. Callers decide
+ * whether any other error should be fatal.
+ */
+export function parseConfig(text: string): ConfigParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const location = locateJsonParseError(text, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      config: undefined,
+      errors: [{ path: '', message: `invalid JSON: ${message}`, ...location }],
+      warnings: [],
+      fatal: false,
+    };
+  }
+
+  const { errors, warnings } = validateConfig(parsed, text);
+
+  if (!isObject(parsed)) {
+    return { config: undefined, errors, warnings, fatal: false };
+  }
+
+  const config = pruneConfig({ mcpServers: {}, ...parsed });
+  return { config, errors, warnings, fatal: config === undefined };
+}
@@ -1,15 +1,55 @@
+import { Stats, unwatchFile, watchFile } from 'fs';
 import { readFile } from 'fs/promises';
 import { resolve } from 'path';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigIssue, formatConfigIssue, parseConfig } from './config-schema.js';
+
+/**
+ * Changes to the input schema of an exposed tool
+ */
+export type InputSchemaPatch = {
+  /** Properties to drop; they are also dropped from `required` */
+  remove?: string[];
+  /** Property schemas to add or replace */
+  properties?: Record<string, object>;
+};
 
 // Define a type for tool mapping (original name -> exposed name)
 export type ToolMapping = {
   original: string;
   exposed: string;
+  description?: string;
+  /** How description is combined with the backend's description (default: 'replace') */
+  descriptionMode?: 'replace' | 'prepend' | 'append';
+  inputSchema?: InputSchemaPatch;
+  /** Merged over the annotations the backend gives the tool */
+  annotations?: ToolAnnotations;
+  /** Arguments always passed to the tool; they are hidden from clients, which may not set them */
+  fixedArgs?: Record<string, unknown>;
+  /** Arguments passed to the tool when the client leaves them out */
+  defaultArgs?: Record<string, unknown>;
 };
 
 // Union type for exposedTools entries
 export type ExposedTool = string | ToolMapping;
 
+/**
+ * How the tools of a server are named: as the server names them, prefixed with
+ * the server name (`server__tool`), or prefixed with a custom prefix (`prefix__tool`)
+ */
+export type ToolNamespace = 'none' | 'server' | { prefix: string };
+
+/**
+ * What happens when tools of different servers end up with the same name
+ */
+export type ToolConflictPolicy = 'error' | 'first-wins' | 'prefix-on-conflict';
+
+/**
+ * Whether tool call arguments are checked against the tool's inputSchema before
+ * they are forwarded: not at all, logging failures, or rejecting failing calls
+ */
+export type ArgValidationMode = 'off' | 'warn' | 'enforce';
+
 export type EnvVarConfig = {
   name: string;
   value: string;
@@ -17,6 +57,55 @@ export type EnvVarConfig = {
   unexpand?: boolean;
 };
 
+/**
+ * Reconnection policy applied after a backend connection is lost
+ */
+export type ReconnectConfig = {
+  enable?: boolean;
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: number;
+};
+
+/**
+ * Periodic health checking of a connected backend
+ */
+export type HealthCheckConfig = {
+  enable?: boolean;
+  intervalMs?: number;
+  timeoutMs?: number;
+  failureThreshold?: number;
+  reconnect?: ReconnectConfig;
+};
+
+/**
+ * Retry policy for the initial connection to a backend
+ */
+export type RetryConfig = {
+  retries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: number;
+};
+
+/**
+ * Requests a backend may send to the client it serves, which the hub passes on to
+ * a downstream client. Each is enabled unless set to false.
+ */
+export type ClientFeaturesConfig = {
+  sampling?: boolean;
+  elicitation?: boolean;
+  roots?: boolean;
+  /**
+   * Name of the downstream client, as in its clientInfo, that receives requests
+   * which cannot be traced to a single call the server is serving
+   */
+  defaultClient?: string;
+};
+
 export type TransportConfigStdio = {
   type?: 'stdio';
   command: string;
@@ -24,9 +113,18 @@ export type TransportConfigStdio = {
   env?: Record<string, string>;
   exposedTools?: ExposedTool[];
   hiddenTools?: string[];
+  /** Overrides the top-level toolNamespace for this server */
+  toolNamespace?: ToolNamespace;
+  /** Whether tool call arguments are validated (default: off) */
+  validateArgs?: ArgValidationMode;
   envVars?: EnvVarConfig[];
   enable?: boolean;
+  /** Whether readiness depends on this server (default: true) */
+  required?: boolean;
   timeout?: number;
+  healthCheck?: HealthCheckConfig;
+  retry?: RetryConfig;
+  clientFeatures?: ClientFeaturesConfig;
 };
 
 export type TransportConfigSSE = {
@@ -36,9 +134,18 @@ export type TransportConfigSSE = {
   env?: Record<string, string>;
   exposedTools?: ExposedTool[];
   hiddenTools?: string[];
+  /** Overrides the top-level toolNamespace for this server */
+  toolNamespace?: ToolNamespace;
+  /** Whether tool call arguments are validated (default: off) */
+  validateArgs?: ArgValidationMode;
   envVars?: EnvVarConfig[];
   enable?: boolean;
+  /** Whether readiness depends on this server (default: true) */
+  required?: boolean;
   timeout?: number;
+  healthCheck?: HealthCheckConfig;
+  retry?: RetryConfig;
+  clientFeatures?: ClientFeaturesConfig;
 };
 
 export type TransportConfigStreamableHTTP = {
@@ -48,9 +155,18 @@ export type TransportConfigStreamableHTTP = {
   env?: Record<string, string>;
   exposedTools?: ExposedTool[];
   hiddenTools?: string[];
+  /** Overrides the top-level toolNamespace for this server */
+  toolNamespace?: ToolNamespace;
+  /** Whether tool call arguments are validated (default: off) */
+  validateArgs?: ArgValidationMode;
   envVars?: EnvVarConfig[];
   enable?: boolean;
+  /** Whether readiness depends on this server (default: true) */
+  required?: boolean;
   timeout?: number;
+  healthCheck?: HealthCheckConfig;
+  retry?: RetryConfig;
+  clientFeatures?: ClientFeaturesConfig;
 };
 
 export type ServerConfig =
@@ -80,12 +196,29 @@ export interface AuthConfig {
   token: string;
 }
 
+/**
+ * Where Streamable HTTP events are kept so that clients can resume dropped streams
+ */
+export type EventStoreConfig =
+  | { type: 'none' }
+  | { type: 'memory'; maxEvents?: number; maxAge?: number }
+  | { type: 'file'; path: string; maxEvents?: number; maxAge?: number };
+
 export interface ServerTransportConfig {
   type: 'stdio' | 'sse' | 'streamable-http';
   port?: number;
   host?: string;
   path?: string;
   auth?: AuthConfig;
+  /** Seconds without requests before a Streamable HTTP session is closed; 0 disables */
+  sessionIdleTimeout?: number;
+  /** Maximum number of concurrent Streamable HTTP sessions; 0 means unlimited */
+  maxSessions?: number;
+  /** What happens to a new session when maxSessions is reached */
+  sessionEviction?: 'lru' | 'reject';
+  /** Serve every Streamable HTTP request without a session */
+  stateless?: boolean;
+  eventStore?: EventStoreConfig;
 }
 
 export interface Config {
@@ -94,17 +227,92 @@ export interface Config {
   envVars?: EnvVarConfig[];
   serverTransport?: ServerTransportConfig;
   timeout?: number;
+  healthCheck?: HealthCheckConfig;
+  retry?: RetryConfig;
+  /** How long the tools listed by a backend are cached, in seconds; 0 disables caching */
+  toolCacheTtl?: number;
+  /** How backend tools are named; servers may set their own (default: 'none') */
+  toolNamespace?: 'none' | 'server';
+  /** What happens when tools of different servers share a name (default: 'first-wins') */
+  toolConflictPolicy?: ToolConflictPolicy;
+}
+
+/**
+ * Thrown in strict mode when the config file cannot be read or fails validation
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ConfigIssue[] = []
+  ) {
+    super(message);
+    this.name = 'ConfigValidationError';
+  }
 }
 
-export const loadConfig = async (): Promise<Config> => {
+export type LoadConfigOptions = {
+  /**
+   * Refuse to load a config with errors instead of skipping the invalid parts.
+   * Defaults to the MCP_PROXY_STRICT_CONFIG environment variable.
+   */
+  strict?: boolean;
+};
+
+export const getConfigPath = (): string =>
+  process.env.MCP_PROXY_CONFIG_PATH ?? resolve(process.cwd(), 'config.json');
+
+export const loadConfig = async (options: LoadConfigOptions = {}): Promise<Config> => {
+  const strict = options.strict ?? process.env.MCP_PROXY_STRICT_CONFIG === '1';
+  const configPath = getConfigPath();
+  console.info('Loading config from:', configPath);
+
+  let fileContents: string;
   try {
-    const configPath = process.env.MCP_PROXY_CONFIG_PATH ?? resolve(process.cwd(), 'config.json');
-    console.info('Loading config from:', configPath);
-    const fileContents = await readFile(configPath, 'utf-8');
-    return JSON.parse(fileContents);
+    fileContents = await readFile(configPath, 'utf-8');
   } catch (error) {
+    if (strict) {
+      throw new ConfigValidationError(`Cannot read config file ${configPath}: ${error}`);
+    }
     console.error('Error loading config.json:', error);
     // Return empty config if file doesn't exist
     return { mcpServers: {} };
   }
+
+  const { config, errors, warnings, fatal } = parseConfig(fileContents);
+
+  warnings.forEach((warning) => {
+    console.warn(`Config warning: ${formatConfigIssue(warning, configPath)}`);
+  });
+
+  if (errors.length > 0) {
+    const details = errors.map((error) => `  ${formatConfigIssue(error, configPath)}`).join('\n');
+    const message = `Invalid config (${errors.length} error${errors.length > 1 ? 's' : ''}):\n${details}`;
+    if (strict || fatal) {
+      throw new ConfigValidationError(message, errors);
+    }
+    console.error(
+      config
+        ? `${message}\nInvalid servers and custom tools are skipped, and invalid settings use their defaults.`
+        : `${message}\nFalling back to an empty config.`
+    );
+  }
+
+  return config ?? { mcpServers: {} };
+};
+
+/**
+ * Watches the config file and calls `onChange` whenever it is modified.
+ * Polls the file's stats so that editors which replace the file on save are handled.
+ * @returns A function that stops watching
+ */
+export const watchConfig = (onChange: () => void, intervalMs = 1000): (() => void) => {
+  const configPath = getConfigPath();
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      onChange();
+    }
+  };
+
+  watchFile(configPath, { interval: intervalMs, persistent: false }, listener);
+  return () => unwatchFile(configPath, listener);
 };
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CreateMessageResultSchema,
+  ListRootsResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { forwardClientRequests, notifyRootsListChanged } from './client-request-forwarding.js';
+import { SessionRegistry } from './session-registry.js';
+import { downstreamRequestService } from '../services/downstream-request-service.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { ConnectedClient } from '../client.js';
+
+vi.mock('../mappers/client-maps.js', () => ({
+  clientMaps: {
+    getAllClients: vi.fn(),
+  },
+}));
+
+const samplingRequest = {
+  method: 'sampling/createMessage',
+  params: { messages: [], maxTokens: 10 },
+};
+const samplingResult = { role: 'assistant', content: { type: 'text', text: 'hi' }, model: 'm' };
+
+const createServer = (
+  capabilities: Record<string, object>,
+  result: unknown,
+  clientName = 'app'
+) => ({
+  getClientCapabilities: () => capabilities,
+  getClientVersion: () => ({ name: clientName, version: '1.0.0' }),
+  request: vi.fn().mockResolvedValue(result),
+});
+
+describe('client-request-forwarding', () => {
+  let client: Client;
+  let registry: SessionRegistry;
+
+  // Delivers a request to the backend client as if the backend had sent it
+  const receive = async (method: string, params: Record<string, unknown>) => {
+    const handler = (
+      client as unknown as {
+        _requestHandlers: Map<string, (request: unknown, extra: unknown) => Promise<unknown>>;
+      }
+    )._requestHandlers.get(method);
+    if (!handler) throw new Error(`No handler for ${method}`);
+    return handler({ method, params }, { signal: new AbortController().signal });
+  };
+
+  const capabilitiesOf = (target: Client) =>
+    (target as unknown as { _capabilities: Record<string, unknown> })._capabilities;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = new Client({ name: 'test', version: '1.0.0' });
+    registry = new SessionRegistry();
+  });
+
+  it('should announce every feature by default', () => {
+    forwardClientRequests(client, 'backend', undefined, registry);
+
+    expect(capabilitiesOf(client)).toEqual({
+      sampling: {},
+      elicitation: {},
+      roots: { listChanged: true },
+    });
+  });
+
+  it('should leave out disabled features', async () => {
+    forwardClientRequests(client, 'backend', { sampling: false, roots: false }, registry);
+
+    expect(capabilitiesOf(client)).toEqual({ elicitation: {} });
+    await expect(receive('sampling/createMessage', samplingRequest.params)).rejects.toThrow(
+      'No handler'
+    );
+  });
+
+  it('should send the request to the client whose call the backend is serving', async () => {
+    forwardClientRequests(client, 'backend', undefined, registry);
+    const fallback = createServer({ sampling: {} }, samplingResult);
+    registry.add(fallback as unknown as Server);
+    const downstream = {
+      sendNotification: vi.fn(),
+      sendRequest: vi.fn().mockResolvedValue(samplingResult),
+      signal: new AbortController().signal,
+    };
+
+    const result = await downstreamRequestService.run('backend', downstream, () =>
+      receive('sampling/createMessage', samplingRequest.params)
+    );
+
+    expect(result).toEqual(samplingResult);
+    expect(downstream.sendRequest).toHaveBeenCalledWith(
+      samplingRequest,
+      CreateMessageResultSchema,
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(fallback.request).not.toHaveBeenCalled();
+  });
+
+  it('should not guess between sessions whose calls the backend serves at once', async () => {
+    forwardClientRequests(client, 'backend', undefined, registry);
+    const createDownstream = () => ({
+      sendNotification: vi.fn(),
+      sendRequest: vi.fn().mockResolvedValue(samplingResult),
+      signal: new AbortController().signal,
+    });
+    const sessionA = createDownstream();
+    const sessionB = createDownstream();
+    let finishA = () => {};
+
+    const callA = downstreamRequestService.run(
+      'backend',
+      sessionA,
+      () => new Promise<void>((resolve) => (finishA = resolve))
+    );
+    const callB = downstreamRequestService.run('backend', sessionB, () =>
+      receive('sampling/createMessage', samplingRequest.params)
+    );
+
+    await expect(callB).rejects.toThrow(
+      'Cannot tell which client the sampling request of backend is for'
+    );
+    expect(sessionA.sendRequest).not.toHaveBeenCalled();
+    expect(sessionB.sendRequest).not.toHaveBeenCalled();
+
+    finishA();
+    await callA;
+  });
+
+  it('should send requests without a single call to the configured default client', async () => {
+    forwardClientRequests(client, 'backend', { defaultClient: 'desktop' }, registry);
+    const roots = { roots: [{ uri: 'file:///project' }] };
+    const desktop = createServer({ roots: {} }, roots, 'desktop');
+    const other = createServer({ roots: {} }, roots, 'other');
+    registry.add(other as unknown as Server);
+    registry.add(desktop as unknown as Server);
+
+    expect(await receive('roots/list', {})).toEqual(roots);
+    expect(desktop.request).toHaveBeenCalledWith(
+      { method: 'roots/list', params: {} },
+      ListRootsResultSchema,
+      expect.anything()
+    );
+    expect(other.request).not.toHaveBeenCalled();
+  });
+
+  it('should fail without a default client or when it is not one supporting session', async () => {
+    forwardClientRequests(client, 'backend', undefined, registry);
+    registry.add(createServer({ roots: {} }, {}) as unknown as Server);
+
+    await expect(receive('roots/list', {})).rejects.toThrow(
+      'set clientFeatures.defaultClient to choose one'
+    );
+
+    const withDefault = new Client({ name: 'test', version: '1.0.0' });
+    forwardClientRequests(withDefault, 'backend', { defaultClient: 'app' }, registry);
+    client = withDefault;
+    registry.add(createServer({ roots: {} }, {}) as unknown as Server);
+
+    await expect(receive('roots/list', {})).rejects.toThrow(
+      'Expected one session of client app for the roots request of backend, found 2'
+    );
+  });
+
+  it('should fail when the default client does not support the feature', async () => {
+    forwardClientRequests(client, 'backend', { defaultClient: 'app' }, registry);
+    registry.add(createServer({}, {}) as unknown as Server);
+
+    await expect(
+      receive('elicitation/create', {
+        message: 'Name?',
+        requestedSchema: { type: 'object', properties: {} },
+      })
+    ).rejects.toThrow('Client app does not support elicitation');
+  });
+
+  describe('notifyRootsListChanged', () => {
+    it('should notify backends that receive roots requests', async () => {
+      const backend = { name: 'backend', client: { sendRootsListChanged: vi.fn() } };
+      const optedOut = { name: 'opted-out', client: { sendRootsListChanged: vi.fn() } };
+      vi.mocked(clientMaps.getAllClients).mockReturnValue(
+        new Set([backend, optedOut] as unknown as ConnectedClient[])
+      );
+
+      await notifyRootsListChanged({
+        backend: { command: 'node' },
+        'opted-out': { command: 'node', clientFeatures: { roots: false } },
+      });
+
+      expect(backend.client.sendRootsListChanged).toHaveBeenCalled();
+      expect(optedOut.client.sendRootsListChanged).not.toHaveBeenCalled();
+    });
+  });
+});
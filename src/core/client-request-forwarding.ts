@@ -0,0 +1,150 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { AnySchema } from '@modelcontextprotocol/sdk/server/zod-compat.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ClientCapabilities,
+  CreateMessageRequestSchema,
+  CreateMessageResultSchema,
+  ElicitRequestSchema,
+  ElicitResultSchema,
+  ListRootsRequestSchema,
+  ListRootsResultSchema,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ClientFeaturesConfig, ServerConfigs } from '../config.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { downstreamRequestService } from '../services/downstream-request-service.js';
+import { NO_TIMEOUT_MS } from '../utils/timeout-utils.js';
+import { SessionRegistry, sessionRegistry } from './session-registry.js';
+
+type ClientFeature = 'sampling' | 'elicitation' | 'roots';
+
+const isEnabled = (features: ClientFeaturesConfig | undefined, feature: ClientFeature) =>
+  features?.[feature] !== false;
+
+/**
+ * Passes a request from a backend on to a downstream client: the one whose
+ * call the backend is serving, when it serves exactly one. Otherwise the
+ * request goes to the server's configured default client, or fails.
+ */
+async function sendDownstream<T extends AnySchema>(
+  serverName: string,
+  feature: ClientFeature,
+  defaultClient: string | undefined,
+  request: ServerRequest,
+  resultSchema: T,
+  signal: AbortSignal,
+  registry: SessionRegistry
+) {
+  // The backend decides how long it is willing to wait, e.g. for a user to
+  // answer, and cancels its request when it gives up
+  const options: RequestOptions = { signal, timeout: NO_TIMEOUT_MS };
+
+  const downstream = downstreamRequestService.getSole(serverName);
+  if (downstream) {
+    return downstream.sendRequest(request, resultSchema, options);
+  }
+
+  if (defaultClient === undefined) {
+    throw new Error(
+      `Cannot tell which client the ${feature} request of ${serverName} is for; ` +
+        'set clientFeatures.defaultClient to choose one'
+    );
+  }
+
+  const sessions = registry
+    .getAll()
+    .filter(({ server }) => server.getClientVersion()?.name === defaultClient);
+  if (sessions.length !== 1) {
+    throw new Error(
+      `Expected one session of client ${defaultClient} for the ${feature} request of ` +
+        `${serverName}, found ${sessions.length}`
+    );
+  }
+  if (!sessions[0].server.getClientCapabilities()?.[feature]) {
+    throw new Error(`Client ${defaultClient} does not support ${feature}`);
+  }
+  return sessions[0].server.request(request, resultSchema, options);
+}
+
+/**
+ * Lets a backend send sampling, elicitation and roots requests through the hub.
+ * Each feature is announced to the backend and answered by a downstream client
+ * unless it is disabled in the server's `clientFeatures`.
+ *
+ * @param client The backend client, before it connects
+ * @param serverName Name of the backend in the config
+ * @param features The server's `clientFeatures` setting
+ */
+export function forwardClientRequests(
+  client: Client,
+  serverName: string,
+  features: ClientFeaturesConfig | undefined,
+  registry: SessionRegistry = sessionRegistry
+): void {
+  const capabilities: ClientCapabilities = {};
+  if (isEnabled(features, 'sampling')) capabilities.sampling = {};
+  if (isEnabled(features, 'elicitation')) capabilities.elicitation = {};
+  if (isEnabled(features, 'roots')) capabilities.roots = { listChanged: true };
+  client.registerCapabilities(capabilities);
+
+  if (capabilities.sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      sendDownstream(
+        serverName,
+        'sampling',
+        features?.defaultClient,
+        request,
+        CreateMessageResultSchema,
+        extra.signal,
+        registry
+      )
+    );
+  }
+
+  if (capabilities.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      sendDownstream(
+        serverName,
+        'elicitation',
+        features?.defaultClient,
+        request,
+        ElicitResultSchema,
+        extra.signal,
+        registry
+      )
+    );
+  }
+
+  if (capabilities.roots) {
+    client.setRequestHandler(ListRootsRequestSchema, (request, extra) =>
+      sendDownstream(
+        serverName,
+        'roots',
+        features?.defaultClient,
+        request,
+        ListRootsResultSchema,
+        extra.signal,
+        registry
+      )
+    );
+  }
+}
+
+/**
+ * Tells every backend that receives roots requests that the roots have changed
+ * @param serverConfigs The backend configs currently in effect
+ */
+export async function notifyRootsListChanged(serverConfigs: ServerConfigs): Promise<void> {
+  await Promise.all(
+    Array.from(clientMaps.getAllClients())
+      .filter(({ name }) => isEnabled(serverConfigs[name]?.clientFeatures, 'roots'))
+      .map(async ({ name, client }) => {
+        try {
+          await client.sendRootsListChanged();
+        } catch (error) {
+          console.debug(`Failed to notify ${name} of changed roots:`, error);
+        }
+      })
+  );
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createEventStore,
+  FileEventStore,
+  InMemoryEventStore,
+  scopeEventStore,
+} from './event-store.js';
+
+const notification = (n: number): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  method: 'notifications/progress',
+  params: { progressToken: 't', progress: n },
+});
+
+const replay = async (
+  store: { replayEventsAfter: InMemoryEventStore['replayEventsAfter'] },
+  id: string
+) => {
+  const sent: Array<[string, JSONRPCMessage]> = [];
+  const streamId = await store.replayEventsAfter(id, {
+    send: async (eventId, message) => {
+      sent.push([eventId, message]);
+    },
+  });
+  return { streamId, sent };
+};
+
+describe('event-store', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  describe('InMemoryEventStore', () => {
+    const createStore = (maxEvents = 0, maxAgeMs = 0) =>
+      new InMemoryEventStore({ maxEvents, maxAgeMs }, () => now);
+
+    it('should replay events of the same stream after the given event', async () => {
+      const store = createStore();
+      const first = await store.storeEvent('s1', notification(1));
+      await store.storeEvent('s2', notification(2));
+      const third = await store.storeEvent('s1', notification(3));
+
+      const { streamId, sent } = await replay(store, first);
+
+      expect(streamId).toBe('s1');
+      expect(sent).toEqual([[third, notification(3)]]);
+      expect(await store.getStreamIdForEventId(first)).toBe('s1');
+    });
+
+    it('should reject unknown event IDs', async () => {
+      const store = createStore();
+
+      await expect(replay(store, '42')).rejects.toThrow('Unknown or expired event ID: 42');
+      expect(await store.getStreamIdForEventId('42')).toBeUndefined();
+    });
+
+    it('should keep at most maxEvents events', async () => {
+      const store = createStore(2);
+      const first = await store.storeEvent('s1', notification(1));
+      await store.storeEvent('s1', notification(2));
+      await store.storeEvent('s1', notification(3));
+
+      expect(store.size).toBe(2);
+      expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+    });
+
+    it('should drop events older than maxAge', async () => {
+      const store = createStore(0, 1000);
+      const first = await store.storeEvent('s1', notification(1));
+      now = 600;
+      const second = await store.storeEvent('s1', notification(2));
+      now = 1200;
+
+      expect(await store.getStreamIdForEventId(first)).toBeUndefined();
+      expect(await store.getStreamIdForEventId(second)).toBe('s1');
+    });
+  });
+
+  describe('scopeEventStore', () => {
+    it('should keep the streams of different sessions apart', async () => {
+      const store = new InMemoryEventStore({ maxEvents: 0, maxAgeMs: 0 });
+      const a = scopeEventStore(store, 'a');
+      const b = scopeEventStore(store, 'b');
+
+      const first = await a.storeEvent('_GET_stream', notification(1));
+      await b.storeEvent('_GET_stream', notification(2));
+      const third = await a.storeEvent('_GET_stream', notification(3));
+
+      const { streamId, sent } = await replay(a, first);
+      expect(streamId).toBe('_GET_stream');
+      expect(sent).toEqual([[third, notification(3)]]);
+
+      expect(await b.getStreamIdForEventId!(first)).toBeUndefined();
+      await expect(replay(b, first)).rejects.toThrow('Unknown or expired event ID');
+    });
+  });
+
+  describe('FileEventStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'event-store-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should restore events written by a previous instance', async () => {
+      const path = join(dir, 'nested', 'events.jsonl');
+      const store = new FileEventStore(path, { maxEvents: 0, maxAgeMs: 0 });
+      await store.load();
+      const first = await store.storeEvent('s1', notification(1));
+      const second = await store.storeEvent('s1', notification(2));
+
+      const restored = new FileEventStore(path, { maxEvents: 0, maxAgeMs: 0 });
+      await restored.load();
+
+      expect((await replay(restored, first)).sent).toEqual([[second, notification(2)]]);
+      // New IDs continue after the restored ones
+      expect(Number(await restored.storeEvent('s1', notification(3)))).toBeGreaterThan(
+        Number(second)
+      );
+    });
+
+    it('should keep storing events when the file cannot be written', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      // Appending to a directory fails
+      const store = new FileEventStore(dir, { maxEvents: 0, maxAgeMs: 0 });
+
+      const first = await store.storeEvent('s1', notification(1));
+      const second = await store.storeEvent('s1', notification(2));
+
+      expect((await replay(store, first)).sent).toEqual([[second, notification(2)]]);
+      expect(errorSpy).toHaveBeenCalledTimes(2);
+      errorSpy.mockRestore();
+    });
+
+    it('should skip unreadable lines and drop pruned events from the file', async () => {
+      const path = join(dir, 'events.jsonl');
+      const old = { id: '1', streamId: 's1', message: notification(1), timestamp: 0 };
+      const recent = { id: '2', streamId: 's1', message: notification(2), timestamp: 900 };
+      await writeFile(path, `${JSON.stringify(old)}\nnot json\n${JSON.stringify(recent)}\n`);
+      now = 1500;
+
+      const store = new FileEventStore(path, { maxEvents: 0, maxAgeMs: 1000 }, () => now);
+      await store.load();
+
+      expect(store.size).toBe(1);
+      expect(await readFile(path, 'utf-8')).toBe(`${JSON.stringify(recent)}\n`);
+    });
+  });
+
+  describe('createEventStore', () => {
+    it('should create an in-memory store by default', async () => {
+      expect(await createEventStore()).toBeInstanceOf(InMemoryEventStore);
+    });
+
+    it('should return undefined when disabled', async () => {
+      expect(await createEventStore({ type: 'none' })).toBeUndefined();
+    });
+
+    it('should create a file store', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'event-store-'));
+      try {
+        const store = await createEventStore({ type: 'file', path: join(dir, 'events.jsonl') });
+        expect(store).toBeInstanceOf(FileEventStore);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { existsSync } from 'fs';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventStoreConfig } from '../config.js';
+
+/**
+ * How long stored events are kept for replay
+ */
+export interface EventRetention {
+  /** Maximum number of events kept across all streams; 0 means unlimited */
+  maxEvents: number;
+  /** Maximum age of an event in milliseconds; 0 means unlimited */
+  maxAgeMs: number;
+}
+
+export const DEFAULT_EVENT_RETENTION: EventRetention = {
+  maxEvents: 1000,
+  maxAgeMs: 5 * 60 * 1000,
+};
+
+interface StoredEvent {
+  id: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  timestamp: number;
+}
+
+/**
+ * Event store that keeps events in memory, oldest first, and drops them once
+ * they fall outside the retention limits.
+ */
+export class InMemoryEventStore implements EventStore {
+  protected events = new Map<EventId, StoredEvent>();
+  protected sequence = 0;
+
+  constructor(
+    protected readonly retention: EventRetention,
+    protected readonly now: () => number = Date.now
+  ) {}
+
+  get size(): number {
+    return this.events.size;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const event: StoredEvent = {
+      id: String(++this.sequence),
+      streamId,
+      message,
+      timestamp: this.now(),
+    };
+    this.events.set(event.id, event);
+    this.prune();
+    return event.id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    this.prune();
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    this.prune();
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      throw new Error(`Unknown or expired event ID: ${lastEventId}`);
+    }
+
+    let found = false;
+    for (const event of Array.from(this.events.values())) {
+      if (event.id === lastEventId) {
+        found = true;
+      } else if (found && event.streamId === lastEvent.streamId) {
+        await send(event.id, event.message);
+      }
+    }
+    return lastEvent.streamId;
+  }
+
+  /**
+   * Drops events beyond the retention limits
+   */
+  protected prune(): void {
+    const { maxEvents, maxAgeMs } = this.retention;
+    const cutoff = maxAgeMs > 0 ? this.now() - maxAgeMs : -Infinity;
+
+    for (const event of this.events.values()) {
+      const tooMany = maxEvents > 0 && this.events.size > maxEvents;
+      if (!tooMany && event.timestamp >= cutoff) break;
+      this.events.delete(event.id);
+    }
+  }
+}
+
+/**
+ * Event store that also appends every event to a JSON Lines file, as a log of
+ * recent messages that outlives a crash of the hub. Sessions are only kept in
+ * memory, so streams cannot be resumed across a restart. The file is rewritten
+ * with only the retained events once it has grown to twice their number.
+ */
+export class FileEventStore extends InMemoryEventStore {
+  private linesInFile = 0;
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    retention: EventRetention,
+    now?: () => number
+  ) {
+    super(retention, now);
+  }
+
+  /**
+   * Loads the events stored by a previous run, so that the file keeps them and
+   * new event IDs follow theirs. Unreadable lines are skipped.
+   */
+  async load(): Promise<void> {
+    if (existsSync(this.filePath)) {
+      const text = await readFile(this.filePath, 'utf-8');
+      for (const line of text.split('\n')) {
+        const event = parseStoredEvent(line);
+        if (event) {
+          this.events.set(event.id, event);
+          this.sequence = Math.max(this.sequence, Number(event.id));
+        }
+      }
+    } else {
+      await mkdir(dirname(this.filePath), { recursive: true });
+    }
+
+    this.prune();
+    await this.serialize(() => this.compact());
+  }
+
+  /**
+   * Stores an event in memory and appends it to the file. A failed write is
+   * only logged, so that a broken file never holds up delivery to the client.
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = await super.storeEvent(streamId, message);
+    const event = this.events.get(eventId);
+
+    await this.serialize(async () => {
+      if (event) {
+        await appendFile(this.filePath, `${JSON.stringify(event)}\n`);
+        this.linesInFile++;
+      }
+      if (this.linesInFile > Math.max(2 * this.events.size, 100)) {
+        await this.compact();
+      }
+    }).catch(() => {
+      // Logged by serialize
+    });
+
+    return eventId;
+  }
+
+  /**
+   * Runs file operations one at a time so that appends never race a rewrite
+   */
+  private serialize(operation: () => Promise<void>): Promise<void> {
+    const result = this.pendingWrite.then(operation);
+    this.pendingWrite = result.catch((error) => {
+      console.error(`Failed to write event store ${this.filePath}:`, error);
+    });
+    return result;
+  }
+
+  private async compact(): Promise<void> {
+    const events = Array.from(this.events.values());
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, events.map((event) => `${JSON.stringify(event)}\n`).join(''));
+    await rename(tempPath, this.filePath);
+    this.linesInFile = events.length;
+  }
+}
+
+function parseStoredEvent(line: string): StoredEvent | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const value = JSON.parse(line);
+    if (
+      typeof value?.id === 'string' &&
+      typeof value.streamId === 'string' &&
+      typeof value.timestamp === 'number' &&
+      typeof value.message === 'object'
+    ) {
+      return {
+        id: value.id,
+        streamId: value.streamId,
+        message: value.message,
+        timestamp: value.timestamp,
+      };
+    }
+  } catch {
+    /* empty */
+  }
+  return undefined;
+}
+
+/**
+ * Gives one session its own view of a shared event store.
+ * Stream IDs such as the one of the standalone GET stream are the same in every
+ * session, so they are stored with the session ID as prefix, and events that
+ * belong to another session cannot be replayed.
+ */
+export function scopeEventStore(store: InMemoryEventStore, sessionId: string): EventStore {
+  const prefix = `${sessionId}/`;
+
+  const ownStreamId = async (eventId: EventId) => {
+    const streamId = await store.getStreamIdForEventId(eventId);
+    return streamId?.startsWith(prefix) ? streamId.slice(prefix.length) : undefined;
+  };
+
+  return {
+    storeEvent: (streamId, message) => store.storeEvent(prefix + streamId, message),
+    getStreamIdForEventId: ownStreamId,
+    replayEventsAfter: async (lastEventId, options) => {
+      if ((await ownStreamId(lastEventId)) === undefined) {
+        throw new Error(`Unknown or expired event ID: ${lastEventId}`);
+      }
+      const streamId = await store.replayEventsAfter(lastEventId, options);
+      return streamId.slice(prefix.length);
+    },
+  };
+}
+
+/**
+ * Creates the event store described by the config.
+ * Defaults to a bounded in-memory store.
+ * @returns The store, or undefined when resumability is disabled
+ */
+export async function createEventStore(
+  config?: EventStoreConfig
+): Promise<InMemoryEventStore | undefined> {
+  if (config?.type === 'none') {
+    return undefined;
+  }
+
+  const retention: EventRetention = {
+    maxEvents: config?.maxEvents ?? DEFAULT_EVENT_RETENTION.maxEvents,
+    maxAgeMs:
+      config?.maxAge !== undefined ? config.maxAge * 1000 : DEFAULT_EVENT_RETENTION.maxAgeMs,
+  };
+
+  if (config?.type === 'file') {
+    const store = new FileEventStore(resolve(config.path), retention);
+    await store.load();
+    return store;
+  }
+  return new InMemoryEventStore(retention);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Config } from '../config.js';
+import { ConnectedClient } from '../client.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { serverStatusService } from '../services/server-status-service.js';
+import { getReadiness, getServerReports } from './health-endpoints.js';
+
+describe('health-endpoints', () => {
+  const config: Config = {
+    mcpServers: {
+      github: { command: 'node' },
+      search: { type: 'sse', url: 'http://localhost/sse', required: false },
+      legacy: { type: 'streamable-http', url: 'http://localhost/mcp', enable: false },
+    },
+  };
+
+  const connect = (name: string): ConnectedClient => {
+    const connectedClient = {
+      client: new Client({ name, version: '1.0.0' }),
+      name,
+      cleanup: async () => {},
+    };
+    clientMaps.addConnectedClient(connectedClient);
+    serverStatusService.markReady(name);
+    return connectedClient;
+  };
+
+  beforeEach(() => {
+    serverStatusService.markConnecting('github');
+    serverStatusService.markConnecting('search');
+  });
+
+  afterEach(() => {
+    for (const name of Object.keys(config.mcpServers)) {
+      clientMaps.removeConnectedClient(name);
+      serverStatusService.remove(name);
+    }
+  });
+
+  describe('getReadiness', () => {
+    it('should not be ready while a required server is not connected', () => {
+      connect('search');
+
+      expect(getReadiness(config)).toEqual({ ready: false, notReady: ['github'] });
+    });
+
+    it('should ignore optional and disabled servers', () => {
+      connect('github');
+
+      expect(getReadiness(config)).toEqual({ ready: true, notReady: [] });
+    });
+
+    it('should treat a degraded server as connected but a failed one as not', () => {
+      connect('github');
+
+      serverStatusService.markDegraded('github');
+      expect(getReadiness(config).ready).toBe(true);
+
+      serverStatusService.markFailed('github');
+      expect(getReadiness(config).ready).toBe(false);
+    });
+  });
+
+  describe('getServerReports', () => {
+    it('should report every configured server', () => {
+      const github = connect('github');
+      clientMaps.mapToolToClient('create_issue', github);
+      serverStatusService.recordSuccessfulCall('github');
+
+      const reports = getServerReports(config);
+
+      expect(reports.map((report) => [report.name, report.type, report.state])).toEqual([
+        ['github', 'stdio', 'ready'],
+        ['search', 'sse', 'connecting'],
+        ['legacy', 'streamable-http', 'disabled'],
+      ]);
+      expect(reports[0]).toMatchObject({
+        required: true,
+        tools: 1,
+        resources: 0,
+        prompts: 0,
+        uptime: 0,
+        reconnectAttempts: 0,
+      });
+      expect(reports[0].lastSuccessfulCallAt).toBeInstanceOf(Date);
+      expect(reports[1].required).toBe(false);
+    });
+  });
+});
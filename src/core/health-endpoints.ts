@@ -0,0 +1,116 @@
+import express from 'express';
+import { Config } from '../config.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { ServerConnectionState, serverStatusService } from '../services/server-status-service.js';
+
+/**
+ * Status of a single backend as reported by /status
+ */
+export interface ServerReport {
+  name: string;
+  type: 'stdio' | 'sse' | 'streamable-http';
+  required: boolean;
+  state: ServerConnectionState | 'disabled';
+  since?: Date;
+  connectedAt?: Date;
+  /** Seconds since the current connection was established */
+  uptime?: number;
+  tools: number;
+  resources: number;
+  prompts: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+  lastSuccessfulCallAt?: Date;
+  reconnectAttempts: number;
+}
+
+export interface Readiness {
+  ready: boolean;
+  /** Required servers that are not connected */
+  notReady: string[];
+}
+
+/**
+ * Builds the status of every configured backend
+ */
+export function getServerReports(config: Config): ServerReport[] {
+  const now = Date.now();
+
+  return Object.entries(config.mcpServers).map(([name, serverConfig]) => {
+    const status = serverStatusService.getStatus(name);
+    const connectedAt = status?.connectedAt;
+
+    return {
+      name,
+      type: serverConfig.type ?? 'stdio',
+      required: serverConfig.required !== false,
+      state: serverConfig.enable === false ? 'disabled' : (status?.state ?? 'connecting'),
+      since: status?.since,
+      connectedAt,
+      uptime: connectedAt ? Math.floor((now - connectedAt.getTime()) / 1000) : undefined,
+      ...clientMaps.countMappings(name),
+      lastError: status?.lastError,
+      lastErrorAt: status?.lastErrorAt,
+      lastSuccessfulCallAt: status?.lastSuccessfulCallAt,
+      reconnectAttempts: status?.reconnectAttempts ?? 0,
+    };
+  });
+}
+
+/**
+ * The hub is ready when every enabled, required backend has a live connection.
+ * A degraded server still counts as connected; one that is connecting or
+ * failed does not.
+ */
+export function getReadiness(config: Config): Readiness {
+  const connected = new Set(Array.from(clientMaps.getAllClients()).map((client) => client.name));
+
+  const notReady = Object.entries(config.mcpServers)
+    .filter(([, serverConfig]) => serverConfig.enable !== false && serverConfig.required !== false)
+    .map(([name]) => name)
+    .filter((name) => {
+      const state = serverStatusService.getStatus(name)?.state;
+      return !connected.has(name) || (state !== 'ready' && state !== 'degraded');
+    });
+
+  return { ready: notReady.length === 0, notReady };
+}
+
+/**
+ * Creates the /healthz and /readyz routes.
+ * These are meant for orchestrators and should be mounted before authentication.
+ * @param getConfig Returns the config currently in effect
+ */
+export function createHealthRouter(getConfig: () => Config): express.Router {
+  const router = express.Router();
+
+  router.get('/healthz', (_req, res) => {
+    res.json({ status: 'ok', uptime: Math.floor(process.uptime()) });
+  });
+
+  router.get('/readyz', (_req, res) => {
+    const { ready, notReady } = getReadiness(getConfig());
+    res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not ready', notReady });
+  });
+
+  return router;
+}
+
+/**
+ * Creates the /status route, which reports every backend in detail
+ * @param getConfig Returns the config currently in effect
+ */
+export function createStatusRouter(getConfig: () => Config): express.Router {
+  const router = express.Router();
+
+  router.get('/status', (_req, res) => {
+    const config = getConfig();
+    res.json({
+      uptime: Math.floor(process.uptime()),
+      ...getReadiness(config),
+      servers: getServerReports(config),
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HttpSessionStore, HttpSessionStoreOptions } from './http-session-store.js';
+
+describe('HttpSessionStore', () => {
+  let now: number;
+  let closeSession: ReturnType<typeof vi.fn>;
+
+  const createStore = (options: Partial<HttpSessionStoreOptions> = {}) =>
+    new HttpSessionStore<string>(
+      { idleTimeoutMs: 1000, maxSessions: 0, evictionPolicy: 'lru', ...options },
+      closeSession,
+      () => now
+    );
+
+  beforeEach(() => {
+    now = 0;
+    closeSession = vi.fn().mockResolvedValue(undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should add and get sessions', () => {
+    const store = createStore();
+    store.add('a', 'session-a');
+
+    expect(store.get('a')).toBe('session-a');
+    expect(store.get('b')).toBeUndefined();
+    expect(store.size).toBe(1);
+  });
+
+  it('should close sessions that have been idle too long', async () => {
+    const store = createStore();
+    store.add('a', 'session-a');
+    store.add('b', 'session-b');
+
+    now = 600;
+    store.get('b');
+    now = 1200;
+    await store.sweep();
+
+    expect(closeSession).toHaveBeenCalledTimes(1);
+    expect(closeSession).toHaveBeenCalledWith('session-a');
+    expect(store.get('a')).toBeUndefined();
+    expect(store.get('b')).toBe('session-b');
+    expect(console.log).toHaveBeenCalledWith('Closing session a: idle for 1s');
+  });
+
+  it('should not close sessions with a request in progress', async () => {
+    const store = createStore();
+    store.add('a', 'session-a');
+
+    const done = store.beginRequest('a');
+    now = 5000;
+    await store.sweep();
+    expect(closeSession).not.toHaveBeenCalled();
+
+    done();
+    now = 5500;
+    await store.sweep();
+    expect(closeSession).not.toHaveBeenCalled();
+
+    now = 6000;
+    await store.sweep();
+    expect(closeSession).toHaveBeenCalledWith('session-a');
+  });
+
+  it('should not sweep when the idle timeout is disabled', async () => {
+    const store = createStore({ idleTimeoutMs: 0 });
+    store.add('a', 'session-a');
+
+    now = 1_000_000;
+    await store.sweep();
+
+    expect(closeSession).not.toHaveBeenCalled();
+  });
+
+  it('should evict the least recently used session when full', () => {
+    const store = createStore({ maxSessions: 2 });
+    store.add('a', 'session-a');
+    store.add('b', 'session-b');
+    store.get('a');
+
+    expect(store.canAccept()).toBe(true);
+    store.add('c', 'session-c');
+
+    expect(closeSession).toHaveBeenCalledWith('session-b');
+    expect(store.size).toBe(2);
+    expect(console.log).toHaveBeenCalledWith(
+      'Closing session b: least recently used, evicted to stay within maxSessions (2)'
+    );
+  });
+
+  it('should refuse new sessions when full with the reject policy', () => {
+    const store = createStore({ maxSessions: 1, evictionPolicy: 'reject' });
+    expect(store.canAccept()).toBe(true);
+
+    store.add('a', 'session-a');
+
+    expect(store.canAccept()).toBe(false);
+  });
+
+  it('should forget a session without closing it', () => {
+    const store = createStore();
+    store.add('a', 'session-a');
+
+    store.delete('a');
+
+    expect(store.size).toBe(0);
+    expect(closeSession).not.toHaveBeenCalled();
+  });
+
+  it('should close all sessions', async () => {
+    const store = createStore();
+    store.add('a', 'session-a');
+    store.add('b', 'session-b');
+
+    await store.closeAll('shutdown');
+
+    expect(closeSession).toHaveBeenCalledTimes(2);
+    expect(store.size).toBe(0);
+  });
+
+  it('should log errors while closing a session', async () => {
+    const error = new Error('boom');
+    closeSession.mockRejectedValueOnce(error);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = createStore();
+    store.add('a', 'session-a');
+
+    await store.close('a', 'deleted');
+
+    expect(console.error).toHaveBeenCalledWith('Error closing session a:', error);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Why a session was closed by the hub rather than by the client
+ */
+export type SessionCloseReason = 'idle' | 'evicted' | 'deleted' | 'shutdown';
+
+export type SessionEvictionPolicy = 'lru' | 'reject';
+
+export interface HttpSessionStoreOptions {
+  /** Close sessions without requests for this long; 0 disables the sweeper */
+  idleTimeoutMs: number;
+  /** Maximum number of concurrent sessions; 0 means unlimited */
+  maxSessions: number;
+  /** What to do with a new session when maxSessions is reached */
+  evictionPolicy: SessionEvictionPolicy;
+}
+
+interface Entry<T> {
+  session: T;
+  lastActivity: number;
+  activeRequests: number;
+}
+
+/**
+ * Keeps the sessions of an HTTP entrypoint, closes the ones that went idle and
+ * enforces a cap on how many can be open at once.
+ *
+ * Entries are kept in least-recently-used order, so the first entry is always
+ * the one to evict. Sessions with a request in progress (including an open
+ * notification stream) never count as idle.
+ */
+export class HttpSessionStore<T> {
+  private entries = new Map<string, Entry<T>>();
+  private sweeper: NodeJS.Timeout | undefined;
+
+  /**
+   * @param options Idle timeout and capacity limits
+   * @param closeSession Closes a session; the session must then be removed with delete()
+   * @param now Clock, injectable for tests
+   */
+  constructor(
+    private readonly options: HttpSessionStoreOptions,
+    private readonly closeSession: (session: T) => Promise<void>,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Gets a session and marks it as used
+   */
+  get(sessionId: string): T | undefined {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return undefined;
+    this.touch(sessionId, entry);
+    return entry.session;
+  }
+
+  /**
+   * Whether a new session can be added right now
+   */
+  canAccept(): boolean {
+    return (
+      this.options.evictionPolicy === 'lru' ||
+      this.options.maxSessions <= 0 ||
+      this.entries.size < this.options.maxSessions
+    );
+  }
+
+  /**
+   * Adds a session, evicting the least recently used ones if the store is full
+   */
+  add(sessionId: string, session: T): void {
+    if (this.options.maxSessions > 0) {
+      for (const id of this.entries.keys()) {
+        if (this.entries.size < this.options.maxSessions) break;
+        void this.close(id, 'evicted');
+      }
+    }
+    this.entries.set(sessionId, { session, lastActivity: this.now(), activeRequests: 0 });
+  }
+
+  /**
+   * Marks a request as in progress until the returned function is called
+   */
+  beginRequest(sessionId: string): () => void {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return () => {};
+
+    entry.activeRequests++;
+    this.touch(sessionId, entry);
+
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      entry.activeRequests--;
+      entry.lastActivity = this.now();
+    };
+  }
+
+  /**
+   * Forgets a session without closing it
+   */
+  delete(sessionId: string): void {
+    this.entries.delete(sessionId);
+  }
+
+  /**
+   * Removes and closes a session
+   */
+  async close(sessionId: string, reason: SessionCloseReason): Promise<void> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return;
+
+    this.entries.delete(sessionId);
+    console.log(`Closing session ${sessionId}: ${this.describe(reason, entry)}`);
+    try {
+      await this.closeSession(entry.session);
+    } catch (error) {
+      console.error(`Error closing session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Closes every session
+   */
+  async closeAll(reason: SessionCloseReason): Promise<void> {
+    await Promise.all(Array.from(this.entries.keys()).map((id) => this.close(id, reason)));
+  }
+
+  /**
+   * Closes all sessions that have been idle for longer than the idle timeout
+   */
+  async sweep(): Promise<void> {
+    const { idleTimeoutMs } = this.options;
+    if (idleTimeoutMs <= 0) return;
+
+    const cutoff = this.now() - idleTimeoutMs;
+    const idle = Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.activeRequests === 0 && entry.lastActivity <= cutoff)
+      .map(([id]) => id);
+
+    await Promise.all(idle.map((id) => this.close(id, 'idle')));
+  }
+
+  /**
+   * Starts closing idle sessions periodically
+   */
+  startSweeper(): void {
+    const { idleTimeoutMs } = this.options;
+    if (idleTimeoutMs <= 0 || this.sweeper) return;
+
+    this.sweeper = setInterval(
+      () => {
+        void this.sweep();
+      },
+      Math.min(idleTimeoutMs, 60_000)
+    );
+    this.sweeper.unref();
+  }
+
+  /**
+   * Stops the periodic sweep
+   */
+  stopSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = undefined;
+    }
+  }
+
+  private touch(sessionId: string, entry: Entry<T>): void {
+    entry.lastActivity = this.now();
+    // Re-insert to move the session to the most recently used end
+    this.entries.delete(sessionId);
+    this.entries.set(sessionId, entry);
+  }
+
+  private describe(reason: SessionCloseReason, entry: Entry<T>): string {
+    switch (reason) {
+      case 'idle':
+        return `idle for ${Math.round((this.now() - entry.lastActivity) / 1000)}s`;
+      case 'evicted':
+        return `least recently used, evicted to stay within maxSessions (${this.options.maxSessions})`;
+      case 'deleted':
+        return 'terminated by client';
+      case 'shutdown':
+        return 'server shutting down';
+    }
+  }
+}
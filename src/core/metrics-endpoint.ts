@@ -0,0 +1,16 @@
+import express from 'express';
+import { metricsService } from '../services/metrics-service.js';
+
+/**
+ * Creates the /metrics route, which serves metrics in the Prometheus text format
+ */
+export function createMetricsRouter(): express.Router {
+  const router = express.Router();
+
+  router.get('/metrics', async (_req, res) => {
+    res.set('Content-Type', metricsService.registry.contentType);
+    res.send(await metricsService.render());
+  });
+
+  return router;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { forwardNotifications } from './notification-forwarding.js';
+import { routeTable } from './route-table.js';
+import { SessionRegistry } from './session-registry.js';
+import { logLevelService } from '../services/log-level-service.js';
+import { resourceSubscriptionService } from '../services/resource-subscription-service.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
+
+const createServer = (sessionId?: string) => ({
+  transport: sessionId ? { sessionId } : undefined,
+  sendToolListChanged: vi.fn().mockResolvedValue(undefined),
+  sendResourceListChanged: vi.fn().mockResolvedValue(undefined),
+  sendPromptListChanged: vi.fn().mockResolvedValue(undefined),
+  sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
+  sendLoggingMessage: vi.fn().mockResolvedValue(undefined),
+});
+
+describe('notification-forwarding', () => {
+  let client: Client;
+  let registry: SessionRegistry;
+  let first: ReturnType<typeof createServer>;
+  let second: ReturnType<typeof createServer>;
+
+  // Delivers a notification to the backend client as if the backend had sent it
+  const receive = async (method: string, params?: Record<string, unknown>) => {
+    const handler = (
+      client as unknown as {
+        _notificationHandlers: Map<string, (notification: unknown) => Promise<void>>;
+      }
+    )._notificationHandlers.get(method);
+    expect(handler).toBeDefined();
+    await handler!({ method, params });
+  };
+
+  beforeEach(() => {
+    client = new Client({ name: 'test', version: '1.0.0' });
+    registry = new SessionRegistry();
+    first = createServer('session-1');
+    second = createServer('session-2');
+    registry.add(first as unknown as Server);
+    registry.add(second as unknown as Server);
+
+    forwardNotifications(client, 'backend', registry);
+  });
+
+  it('should fan out list changes to every session', async () => {
+    await receive('notifications/tools/list_changed');
+    await receive('notifications/resources/list_changed');
+    await receive('notifications/prompts/list_changed');
+
+    for (const server of [first, second]) {
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+      expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+      expect(server.sendPromptListChanged).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('should drop the cached tools of a backend whose tool list changed', async () => {
+    const invalidate = vi.spyOn(toolCatalogService, 'invalidate');
+
+    await receive('notifications/tools/list_changed');
+
+    expect(invalidate).toHaveBeenCalledWith('backend');
+    invalidate.mockRestore();
+  });
+
+  it('should rebuild the routing tables when prompts or resources change', async () => {
+    const refresh = vi.spyOn(routeTable, 'refresh').mockResolvedValue();
+
+    await receive('notifications/resources/list_changed');
+    await receive('notifications/prompts/list_changed');
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+    refresh.mockRestore();
+  });
+
+  it('should forward resource updates to subscribed sessions only', async () => {
+    const subscriber = registry.getAll()[0].id;
+    const isSubscribed = vi
+      .spyOn(resourceSubscriptionService, 'isSubscribed')
+      .mockImplementation((sessionId) => sessionId === subscriber);
+
+    await receive('notifications/resources/updated', { uri: 'file:///a.txt' });
+
+    expect(isSubscribed).toHaveBeenCalledWith(subscriber, 'file:///a.txt');
+    expect(first.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'file:///a.txt' });
+    expect(second.sendResourceUpdated).not.toHaveBeenCalled();
+    isSubscribed.mockRestore();
+  });
+
+  it('should prefix the logger of log messages with the backend name', async () => {
+    await receive('notifications/message', { level: 'info', logger: 'db', data: 'ready' });
+
+    expect(first.sendLoggingMessage).toHaveBeenCalledWith(
+      { level: 'info', logger: 'backend/db', data: 'ready' },
+      'session-1'
+    );
+    expect(second.sendLoggingMessage).toHaveBeenCalledWith(
+      { level: 'info', logger: 'backend/db', data: 'ready' },
+      'session-2'
+    );
+  });
+
+  it('should use the backend name as logger when none is given', async () => {
+    await receive('notifications/message', { level: 'error', data: 'boom' });
+
+    expect(first.sendLoggingMessage).toHaveBeenCalledWith(
+      { level: 'error', logger: 'backend', data: 'boom' },
+      'session-1'
+    );
+  });
+
+  it('should skip sessions whose log level is above the message level', async () => {
+    const [quiet] = registry.getAll();
+    const isIgnored = vi
+      .spyOn(logLevelService, 'isIgnored')
+      .mockImplementation((sessionId) => sessionId === quiet.id);
+
+    await receive('notifications/message', { level: 'debug', data: 'noise' });
+
+    expect(isIgnored).toHaveBeenCalledWith(quiet.id, 'debug');
+    expect(first.sendLoggingMessage).not.toHaveBeenCalled();
+    expect(second.sendLoggingMessage).toHaveBeenCalled();
+    isIgnored.mockRestore();
+  });
+
+  it('should keep notifying other sessions when one fails', async () => {
+    const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    first.sendToolListChanged.mockRejectedValueOnce(new Error('Not connected'));
+
+    await receive('notifications/tools/list_changed');
+
+    expect(second.sendToolListChanged).toHaveBeenCalledTimes(1);
+    debugSpy.mockRestore();
+  });
+});
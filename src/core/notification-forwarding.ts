@@ -0,0 +1,65 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  LoggingMessageNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logLevelService } from '../services/log-level-service.js';
+import { resourceSubscriptionService } from '../services/resource-subscription-service.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
+import { routeTable } from './route-table.js';
+import { SessionRegistry, sessionRegistry } from './session-registry.js';
+
+/**
+ * Relays notifications a backend sends on its own to the downstream sessions.
+ * List changes go to every session, after rebuilding the routing tables, and
+ * resource updates to the sessions that subscribed to the resource. Log messages go to every session whose log level
+ * lets them through, with the backend name prepended to the logger.
+ *
+ * Progress is not handled here: it belongs to a single request and is relayed
+ * by the handler that forwarded that request.
+ *
+ * @param client The backend client, before it connects
+ * @param serverName Name of the backend in the config
+ */
+export function forwardNotifications(
+  client: Client,
+  serverName: string,
+  registry: SessionRegistry = sessionRegistry
+): void {
+  client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+    toolCatalogService.invalidate(serverName);
+    return registry.broadcast((server) => server.sendToolListChanged());
+  });
+
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+    void routeTable.refresh();
+    return registry.broadcast((server) => server.sendResourceListChanged());
+  });
+
+  client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+    void routeTable.refresh();
+    return registry.broadcast((server) => server.sendPromptListChanged());
+  });
+
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) =>
+    registry.broadcast(
+      (server) => server.sendResourceUpdated(notification.params),
+      (session) => resourceSubscriptionService.isSubscribed(session.id, notification.params.uri)
+    )
+  );
+
+  client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+    const { logger } = notification.params;
+    const params = {
+      ...notification.params,
+      logger: logger ? `${serverName}/${logger}` : serverName,
+    };
+    return registry.broadcast(
+      (server) => server.sendLoggingMessage(params, server.transport?.sessionId),
+      (session) => !logLevelService.isIgnored(session.id, params.level)
+    );
+  });
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RouteTable } from './route-table.js';
+import { getConnectedClient } from '../client.js';
+import { Config } from '../config.js';
+import {
+  handleListPromptsRequest,
+  handleListResourcesRequest,
+  handleListResourceTemplatesRequest,
+  handleListToolsRequest,
+} from '../handlers/index.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
+import { TOOL_CONFLICTS_META_KEY } from '../utils/tool-conflict-utils.js';
+
+vi.mock('../client.js', () => ({
+  getConnectedClient: vi.fn(),
+}));
+
+vi.mock('../handlers/index.js', () => ({
+  handleListToolsRequest: vi.fn(),
+  handleListPromptsRequest: vi.fn(),
+  handleListResourcesRequest: vi.fn(),
+  handleListResourceTemplatesRequest: vi.fn(),
+}));
+
+const config: Config = {
+  mcpServers: { backend: { command: 'backend', timeout: 5 } },
+  timeout: 10,
+  toolCacheTtl: 60,
+};
+
+describe('RouteTable', () => {
+  let routeTable: RouteTable;
+  let stopWatching: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stopWatching?.();
+    stopWatching = undefined;
+    routeTable = new RouteTable();
+    vi.mocked(getConnectedClient).mockReturnValue([]);
+    vi.mocked(handleListToolsRequest).mockResolvedValue({ tools: [] });
+  });
+
+  it('should list tools, prompts, resources and resource templates with the config', async () => {
+    await routeTable.build(config);
+
+    expect(handleListToolsRequest).toHaveBeenCalledWith(
+      { method: 'tools/list' },
+      [],
+      config.mcpServers,
+      { mcpServers: config.mcpServers, tools: undefined },
+      10,
+      60,
+      config
+    );
+    expect(handleListPromptsRequest).toHaveBeenCalledWith(
+      { method: 'prompts/list' },
+      [],
+      config.mcpServers,
+      10
+    );
+    expect(handleListResourcesRequest).toHaveBeenCalledWith(
+      { method: 'resources/list' },
+      expect.any(Function)
+    );
+    expect(handleListResourceTemplatesRequest).toHaveBeenCalledWith(
+      { method: 'resources/templates/list' },
+      expect.any(Function)
+    );
+  });
+
+  it('should return the tool name conflicts it finds', async () => {
+    const conflicts = [{ tool: 'search', servers: ['a', 'b'] }];
+    vi.mocked(handleListToolsRequest).mockResolvedValueOnce({
+      tools: [],
+      _meta: { [TOOL_CONFLICTS_META_KEY]: conflicts },
+    });
+
+    expect(await routeTable.build(config)).toEqual(conflicts);
+    expect(await routeTable.build(config)).toEqual([]);
+  });
+
+  it('should do nothing on refresh until watched', async () => {
+    await routeTable.refresh();
+
+    expect(handleListToolsRequest).not.toHaveBeenCalled();
+  });
+
+  it('should rebuild when tools are invalidated while watched', async () => {
+    stopWatching = routeTable.watch(() => config);
+
+    toolCatalogService.invalidate('backend');
+    await routeTable.refresh();
+
+    expect(handleListToolsRequest).toHaveBeenCalledTimes(1);
+
+    stopWatching();
+    toolCatalogService.invalidate('backend');
+    await routeTable.refresh();
+
+    expect(handleListToolsRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share a rebuild among refreshes made while it waits', async () => {
+    stopWatching = routeTable.watch(() => config);
+    let finishFirst: () => void = () => {};
+    vi.mocked(handleListToolsRequest).mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishFirst = () => resolve({ tools: [] });
+        })
+    );
+
+    const first = routeTable.refresh();
+    await vi.waitFor(() => expect(handleListToolsRequest).toHaveBeenCalledTimes(1));
+    const second = routeTable.refresh();
+    const third = routeTable.refresh();
+    finishFirst();
+    await Promise.all([first, second, third]);
+
+    expect(second).toBe(third);
+    expect(handleListToolsRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log a failed rebuild and keep refreshing', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    stopWatching = routeTable.watch(() => config);
+    vi.mocked(handleListPromptsRequest).mockRejectedValueOnce(new Error('boom'));
+
+    await routeTable.refresh();
+    await routeTable.refresh();
+
+    expect(errorSpy).toHaveBeenCalledWith('Error refreshing routes:', expect.any(Error));
+    expect(handleListPromptsRequest).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+import { getConnectedClient } from '../client.js';
+import { Config } from '../config.js';
+import {
+  handleListPromptsRequest,
+  handleListResourcesRequest,
+  handleListResourceTemplatesRequest,
+  handleListToolsRequest,
+} from '../handlers/index.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
+import { getReportedToolConflicts, ToolConflict } from '../utils/tool-conflict-utils.js';
+
+/**
+ * Keeps the routing tables of tools, prompts, resources and resource templates
+ * current, so that `tools/call`, `prompts/get` and `resources/read` find their
+ * backend without a client listing first. The tables are rebuilt by listing
+ * every backend, the same way a list request from a client rebuilds them.
+ */
+export class RouteTable {
+  private getConfig: (() => Config) | null = null;
+  private pending: Promise<void> = Promise.resolve();
+  private queued: Promise<void> | null = null;
+
+  /**
+   * Lists everything on all connected backends once, which rebuilds the routing tables
+   * @returns The tool name conflicts found
+   */
+  async build(config: Config): Promise<ToolConflict[]> {
+    const connectedClients = getConnectedClient();
+    const serverConfigs = config.mcpServers || {};
+    const [tools] = await Promise.all([
+      handleListToolsRequest(
+        { method: 'tools/list' },
+        connectedClients,
+        serverConfigs,
+        { mcpServers: serverConfigs, tools: config.tools },
+        config.timeout,
+        config.toolCacheTtl,
+        config
+      ),
+      handleListPromptsRequest(
+        { method: 'prompts/list' },
+        connectedClients,
+        serverConfigs,
+        config.timeout
+      ),
+      handleListResourcesRequest({ method: 'resources/list' }, () => config),
+      handleListResourceTemplatesRequest({ method: 'resources/templates/list' }, () => config),
+    ]);
+    return getReportedToolConflicts(tools._meta);
+  }
+
+  /**
+   * Rebuilds the routing tables whenever a backend connects, reconnects, stops
+   * or changes its tools
+   * @param getConfig Returns the config in effect
+   * @returns A function that stops the rebuilds
+   */
+  watch(getConfig: () => Config): () => void {
+    this.getConfig = getConfig;
+    const unsubscribe = toolCatalogService.onInvalidate(() => void this.refresh());
+    return () => {
+      unsubscribe();
+      this.getConfig = null;
+    };
+  }
+
+  /**
+   * Rebuilds the routing tables with the config in effect; does nothing unless watched.
+   * Rebuilds run one at a time, and requests made while one is waiting share it.
+   */
+  refresh(): Promise<void> {
+    if (this.queued) {
+      return this.queued;
+    }
+
+    const refresh = this.pending.then(async () => {
+      this.queued = null;
+      if (!this.getConfig) {
+        return;
+      }
+      try {
+        await this.build(this.getConfig());
+      } catch (error) {
+        console.error('Error refreshing routes:', error);
+      }
+    });
+    this.queued = refresh;
+    this.pending = refresh;
+    return refresh;
+  }
+}
+
+// Singleton instance for use across the application
+export const routeTable = new RouteTable();
@@ -11,9 +11,13 @@ export function setupEventSource(): void {
 
 /**
  * Creates a new MCP server instance
+ * @param options.completions Whether to advertise argument completion
+ * @param options.logging Whether to advertise log messages and log levels
  * @returns The server instance
  */
-export function createMCPServer(): Server {
+export function createMCPServer(
+  options: { completions?: boolean; logging?: boolean } = {}
+): Server {
   return new Server(
     {
       name: 'mcp-proxy-hub',
@@ -21,9 +25,11 @@ export function createMCPServer(): Server {
     },
     {
       capabilities: {
-        prompts: {},
-        resources: { subscribe: true },
-        tools: {},
+        prompts: { listChanged: true },
+        resources: { subscribe: true, listChanged: true },
+        tools: { listChanged: true },
+        ...(options.completions && { completions: {} }),
+        ...(options.logging && { logging: {} }),
       },
     }
   );
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+/**
+ * A downstream client session served by its own proxy Server instance
+ */
+export interface ProxySession {
+  id: string;
+  server: Server;
+}
+
+/**
+ * Tracks the proxy Server instances of all live downstream sessions
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, ProxySession>();
+
+  /**
+   * Registers a server and returns its session
+   */
+  add(server: Server): ProxySession {
+    const session: ProxySession = { id: randomUUID(), server };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Removes a session
+   */
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Gets all live sessions
+   */
+  getAll(): ProxySession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Sends a notification to every session, or to those matching the filter.
+   * Sessions that are not connected yet or fail to receive it are skipped.
+   */
+  async broadcast(
+    send: (server: Server) => Promise<void>,
+    filter: (session: ProxySession) => boolean = () => true
+  ): Promise<void> {
+    await Promise.all(
+      this.getAll()
+        .filter(filter)
+        .map(async (session) => {
+          try {
+            await send(session.server);
+          } catch (error) {
+            console.debug(`Failed to notify session ${session.id}:`, error);
+          }
+        })
+    );
+  }
+
+  /**
+   * Tells every session that the tool, resource and prompt lists have changed
+   */
+  async notifyListChanged(): Promise<void> {
+    await this.broadcast(async (server) => {
+      await server.sendToolListChanged();
+      await server.sendResourceListChanged();
+      await server.sendPromptListChanged();
+    });
+  }
+}
+
+// Singleton instance for use across the application
+export const sessionRegistry = new SessionRegistry();
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { handleCompleteRequest, supportsCompletions } from './completion-handler.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { ConnectedClient } from '../client.js';
+
+vi.mock('../mappers/client-maps.js', () => ({
+  clientMaps: {
+    getClientForPrompt: vi.fn(),
+    getClientForResourceTemplate: vi.fn(),
+  },
+}));
+
+const createClient = (capabilities: Record<string, object>): ConnectedClient => ({
+  client: {
+    getServerCapabilities: () => capabilities,
+    request: vi.fn().mockResolvedValue({ completion: { values: ['main', 'master'] } }),
+  } as unknown as Client,
+  name: 'backend',
+  cleanup: async () => {},
+});
+
+describe('Completion Handler', () => {
+  let backend: ConnectedClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = createClient({ completions: {} });
+  });
+
+  it('should route prompt argument completion by prompt name', async () => {
+    vi.mocked(clientMaps.getClientForPrompt).mockReturnValueOnce(backend);
+    const params = {
+      ref: { type: 'ref/prompt' as const, name: 'review' },
+      argument: { name: 'branch', value: 'ma' },
+    };
+
+    const result = await handleCompleteRequest({ method: 'completion/complete', params });
+
+    expect(clientMaps.getClientForPrompt).toHaveBeenCalledWith('review');
+    expect(backend.client.request).toHaveBeenCalledWith(
+      { method: 'completion/complete', params },
+      CompleteResultSchema,
+      undefined
+    );
+    expect(result).toEqual({ completion: { values: ['main', 'master'] } });
+  });
+
+  it('should route resource template completion by URI template', async () => {
+    vi.mocked(clientMaps.getClientForResourceTemplate).mockReturnValueOnce(backend);
+
+    await handleCompleteRequest({
+      method: 'completion/complete',
+      params: {
+        ref: { type: 'ref/resource', uri: 'repo://{branch}/README.md' },
+        argument: { name: 'branch', value: 'ma' },
+      },
+    });
+
+    expect(clientMaps.getClientForResourceTemplate).toHaveBeenCalledWith(
+      'repo://{branch}/README.md'
+    );
+    expect(backend.client.request).toHaveBeenCalled();
+  });
+
+  it('should reject unknown prompts and templates', async () => {
+    const argument = { name: 'branch', value: '' };
+
+    await expect(
+      handleCompleteRequest({
+        method: 'completion/complete',
+        params: { ref: { type: 'ref/prompt', name: 'missing' }, argument },
+      })
+    ).rejects.toThrow('Unknown prompt: missing');
+    await expect(
+      handleCompleteRequest({
+        method: 'completion/complete',
+        params: { ref: { type: 'ref/resource', uri: 'missing://{id}' }, argument },
+      })
+    ).rejects.toThrow('Unknown resource template: missing://{id}');
+  });
+
+  it('should suggest nothing for backends without completion support', async () => {
+    const withoutCompletions = createClient({ prompts: {} });
+    vi.mocked(clientMaps.getClientForPrompt).mockReturnValueOnce(withoutCompletions);
+
+    const result = await handleCompleteRequest({
+      method: 'completion/complete',
+      params: { ref: { type: 'ref/prompt', name: 'review' }, argument: { name: 'x', value: '' } },
+    });
+
+    expect(result).toEqual({ completion: { values: [] } });
+    expect(withoutCompletions.client.request).not.toHaveBeenCalled();
+    expect(supportsCompletions(withoutCompletions)).toBe(false);
+    expect(supportsCompletions(backend)).toBe(true);
+  });
+});
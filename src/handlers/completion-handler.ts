@@ -0,0 +1,47 @@
+import { CompleteRequest, CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectedClient } from '../client.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { buildUpstreamRequestOptions, DownstreamContext } from '../utils/request-options-utils.js';
+
+/**
+ * Checks whether a backend offers argument completion
+ */
+export function supportsCompletions(connectedClient: ConnectedClient): boolean {
+  return connectedClient.client.getServerCapabilities()?.completions !== undefined;
+}
+
+/**
+ * Handles a completion request for a prompt argument or a resource template variable
+ * by passing it to the backend that owns the prompt or template
+ * @param downstream The downstream request, whose progress and cancellation are passed through
+ */
+export async function handleCompleteRequest(
+  request: CompleteRequest,
+  downstream?: DownstreamContext
+) {
+  const { ref } = request.params;
+
+  const clientForRef =
+    ref.type === 'ref/prompt'
+      ? clientMaps.getClientForPrompt(ref.name)
+      : clientMaps.getClientForResourceTemplate(ref.uri);
+
+  if (!clientForRef) {
+    throw new Error(
+      ref.type === 'ref/prompt'
+        ? `Unknown prompt: ${ref.name}`
+        : `Unknown resource template: ${ref.uri}`
+    );
+  }
+
+  // Backends without completion support have nothing to suggest
+  if (!supportsCompletions(clientForRef)) {
+    return { completion: { values: [] } };
+  }
+
+  return clientForRef.client.request(
+    { method: 'completion/complete', params: request.params },
+    CompleteResultSchema,
+    buildUpstreamRequestOptions(undefined, request.params._meta?.progressToken, downstream)
+  );
+}
@@ -7,3 +7,5 @@ export {
   handleRestartServerPrompt,
 } from './prompt-handlers.js';
 export * from './resource-handlers.js';
+export { handleCompleteRequest, supportsCompletions } from './completion-handler.js';
+export { registerSetLevelHandler } from './logging-handler.js';
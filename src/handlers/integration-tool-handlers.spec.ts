@@ -13,13 +13,14 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js';
 vi.mock('../services/tool-service.js', () => ({
   toolService: {
     fetchToolsFromClient: vi.fn(),
+    addToolRoutes: vi.fn(),
     validateToolAccess: vi.fn(),
+    applyConfiguredArgs: vi.fn((_toolName, _originalToolName, args) => args),
+    checkToolArguments: vi.fn(),
     executeToolCall: vi.fn(),
-    filterTools: vi.fn(),
-    applyToolNameMapping: vi.fn(),
+    exposeTools: vi.fn(),
     processToolName: vi.fn(),
     prefixToolDescription: vi.fn(),
-    isToolAllowed: vi.fn(),
   },
 }));
 
@@ -33,7 +34,7 @@ vi.mock('../services/custom-tool-service.js', () => ({
 // Mock clientMaps with simple spy functions
 vi.mock('../mappers/client-maps.js', () => ({
   clientMaps: {
-    clearToolMap: vi.fn(),
+    replaceToolMap: vi.fn(),
     mapToolToClient: vi.fn(),
     mapCustomToolToClient: vi.fn(),
     getClientForTool: vi.fn(),
@@ -87,10 +88,6 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
       mcpServers: serverConfigs,
       envVars: [],
     };
-
-    // Reset the client maps before each test
-    vi.mocked(clientMaps.clearToolMap).mockClear();
-    clientMaps.clearToolMap();
   });
 
   it('should map tools to clients during list and then correctly retrieve them during call', async () => {
@@ -107,23 +104,23 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
       inputSchema: { type: 'object' },
     };
 
-    // Mock tool service to return tools and do the mapping side effect
+    // Mock tool service to return tools and route them to their client
     vi.mocked(toolService.fetchToolsFromClient).mockImplementation((client) => {
       if (client === mockClient1) {
-        clientMaps.mapToolToClient('tool1', mockClient1);
         return Promise.resolve([client1Tool]);
       } else if (client === mockClient2) {
-        clientMaps.mapToolToClient('tool2', mockClient2);
         return Promise.resolve([client2Tool]);
       }
       return Promise.resolve([]);
     });
+    vi.mocked(toolService.addToolRoutes).mockImplementation((routes, tools, client) => {
+      tools.forEach(({ tool }) => routes.set(tool.name, client));
+    });
 
-    // Mock filterTools to return the tools directly
-    vi.mocked(toolService.filterTools).mockImplementation((tools) => tools as Tool[]);
-
-    // Mock applyToolNameMapping to return the tools directly
-    vi.mocked(toolService.applyToolNameMapping).mockImplementation((tools) => tools as Tool[]);
+    // Mock exposeTools to expose the tools under their own names
+    vi.mocked(toolService.exposeTools).mockImplementation((tools) =>
+      tools.map((tool) => ({ tool, originalName: tool.name }))
+    );
 
     // Custom tools will be empty for this test
     vi.mocked(customToolService.createCustomTools).mockReturnValueOnce([]);
@@ -142,10 +139,13 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
 
     const listResult = await handleListToolsRequest(listRequest, connectedClients, serverConfigs);
 
-    // Verify that mapToolToClient was called for each tool
-    expect(clientMaps.mapToolToClient).toHaveBeenCalledTimes(2);
-    expect(clientMaps.mapToolToClient).toHaveBeenNthCalledWith(1, 'tool1', mockClient1);
-    expect(clientMaps.mapToolToClient).toHaveBeenNthCalledWith(2, 'tool2', mockClient2);
+    // Verify that the routing table swapped in routes each tool to its client
+    expect(clientMaps.replaceToolMap).toHaveBeenCalledTimes(1);
+    const routes = vi.mocked(clientMaps.replaceToolMap).mock.calls[0][0];
+    expect(Array.from(routes.entries())).toEqual([
+      ['tool1', mockClient1],
+      ['tool2', mockClient2],
+    ]);
 
     // Verify list result
     expect(listResult).toEqual({
@@ -213,8 +213,7 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
 
     // No regular tools for this test
     vi.mocked(toolService.fetchToolsFromClient).mockResolvedValue([]);
-    vi.mocked(toolService.filterTools).mockImplementation((tools) => tools as Tool[]);
-    vi.mocked(toolService.applyToolNameMapping).mockImplementation((tools) => tools as Tool[]);
+    vi.mocked(toolService.exposeTools).mockReturnValue([]);
 
     // Mock custom tool creation
     vi.mocked(customToolService.createCustomTools).mockReturnValueOnce([customTool]);
@@ -284,6 +283,7 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
       undefined,
       config.mcpServers,
       config.envVars,
+      undefined,
       undefined
     );
 
@@ -305,14 +305,18 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
       exposedTools: [{ original: 'originalTool', exposed: 'renamedTool' }],
     };
 
-    // Mock tool service to return the original tool and do the mapping side effect
+    // Mock tool service to return the original tool and route it by its exposed name
     vi.mocked(toolService.fetchToolsFromClient).mockImplementation((client) => {
       if (client.name === 'client1') {
-        clientMaps.mapToolToClient('renamedTool', mockClient1);
         return Promise.resolve([originalTool]);
       }
       return Promise.resolve([]);
     });
+    vi.mocked(toolService.addToolRoutes).mockImplementation((routes, tools, client) => {
+      if (tools.length > 0) {
+        routes.set('renamedTool', client);
+      }
+    });
 
     // Mock processToolName to handle the renaming
     vi.mocked(toolService.processToolName).mockImplementation((toolName, config) => {
@@ -327,22 +331,13 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
       return toolName;
     });
 
-    // Mock filterTools to return the tools as-is (filtering is done separately)
-    vi.mocked(toolService.filterTools).mockImplementation((tools) => tools as Tool[]);
-
-    // Mock applyToolNameMapping to handle the actual renaming
-    vi.mocked(toolService.applyToolNameMapping).mockImplementation((tools, serverConfig) => {
-      if (!tools || !serverConfig?.exposedTools) return tools as Tool[];
-      return tools.map((tool) => {
-        const mapping = serverConfig.exposedTools?.find(
-          (m) => typeof m !== 'string' && m.original === tool.name
-        );
-        if (mapping && typeof mapping !== 'string') {
-          return { ...tool, name: mapping.exposed };
-        }
-        return tool;
-      }) as Tool[];
-    });
+    // Mock exposeTools to handle the actual renaming
+    vi.mocked(toolService.exposeTools).mockImplementation((tools, _serverName, serverConfig) =>
+      tools.map((tool) => ({
+        tool: { ...tool, name: toolService.processToolName(tool.name, serverConfig!) },
+        originalName: tool.name,
+      }))
+    );
 
     // No custom tools for this test
     vi.mocked(customToolService.createCustomTools).mockReturnValueOnce([]);
@@ -370,8 +365,10 @@ describe('Integration Tests for Tool Handlers with Shared ClientMaps', () => {
     expect(listResult.tools.some((tool) => tool.name === 'renamedTool')).toBe(true);
     expect(listResult.tools.some((tool) => tool.name === 'originalTool')).toBe(false);
 
-    // Verify the tool was mapped correctly
-    expect(clientMaps.mapToolToClient).toHaveBeenCalledWith('renamedTool', mockClient1);
+    // Verify the tool was routed by its exposed name
+    expect(vi.mocked(clientMaps.replaceToolMap).mock.calls[0][0].get('renamedTool')).toBe(
+      mockClient1
+    );
 
     // 2. Now call handleToolCall with the renamed tool
     const callRequest = {
@@ -0,0 +1,15 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { logLevelService } from '../services/log-level-service.js';
+
+/**
+ * Registers the log level handler on the server, replacing the SDK's own.
+ * The level is kept for the session and passed on to the backends.
+ * @param sessionId The proxy session the server belongs to
+ */
+export function registerSetLevelHandler(server: Server, sessionId: string): void {
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    await logLevelService.setLevel(sessionId, request.params.level);
+    return {};
+  });
+}
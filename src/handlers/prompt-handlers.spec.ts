@@ -1,7 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ConnectedClient, restartClient } from '../client.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { loadConfig } from '../config.js';
 import { clientMaps } from '../mappers/client-maps.js';
 import {
   handleGetPromptRequest,
@@ -23,10 +22,6 @@ vi.mock('../mappers/client-maps.js', () => ({
   },
 }));
 
-vi.mock('../config.js', () => ({
-  loadConfig: vi.fn(),
-}));
-
 describe('Prompt Handlers', () => {
   let mockClient1: ConnectedClient;
   let mockClient2: ConnectedClient;
@@ -78,7 +73,7 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleGetPromptRequest(request);
+      const result = await handleGetPromptRequest(request, { mcpServers: {} });
 
       // Verify client.request was called with correct params
       expect(mockClient1.client.request).toHaveBeenCalledWith(
@@ -92,7 +87,8 @@ describe('Prompt Handlers', () => {
             },
           },
         },
-        expect.anything()
+        expect.anything(),
+        undefined
       );
 
       // Verify result
@@ -100,13 +96,11 @@ describe('Prompt Handlers', () => {
     });
 
     it('should handle restart_server prompt with specific server', async () => {
-      // Mock loadConfig
       const mockConfig = {
         mcpServers: {
           server1: { command: 'cmd1' },
         },
       };
-      vi.mocked(loadConfig).mockResolvedValueOnce(mockConfig);
 
       // Mock restartClient to return a client
       vi.mocked(restartClient).mockResolvedValueOnce({
@@ -125,14 +119,11 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleGetPromptRequest(request);
-
-      // Verify config was loaded
-      expect(loadConfig).toHaveBeenCalledTimes(1);
+      const result = await handleGetPromptRequest(request, mockConfig);
 
       // Verify client restart was attempted
       expect(restartClient).toHaveBeenCalledTimes(1);
-      expect(restartClient).toHaveBeenCalledWith('server1', { command: 'cmd1' });
+      expect(restartClient).toHaveBeenCalledWith('server1', { command: 'cmd1' }, mockConfig);
 
       // Verify result
       expect(result).toEqual({
@@ -142,14 +133,12 @@ describe('Prompt Handlers', () => {
     });
 
     it('should handle restart_server prompt with all servers', async () => {
-      // Mock loadConfig
       const mockConfig = {
         mcpServers: {
           server1: { command: 'cmd1' },
           server2: { command: 'cmd2' },
         },
       };
-      vi.mocked(loadConfig).mockResolvedValueOnce(mockConfig);
 
       // Mock restartClient to return success for server1 and failure for server2
       vi.mocked(restartClient).mockResolvedValueOnce({
@@ -169,15 +158,12 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleGetPromptRequest(request);
-
-      // Verify config was loaded
-      expect(loadConfig).toHaveBeenCalledTimes(1);
+      const result = await handleGetPromptRequest(request, mockConfig);
 
       // Verify client restart was attempted for both servers
       expect(restartClient).toHaveBeenCalledTimes(2);
-      expect(restartClient).toHaveBeenCalledWith('server1', { command: 'cmd1' });
-      expect(restartClient).toHaveBeenCalledWith('server2', { command: 'cmd2' });
+      expect(restartClient).toHaveBeenCalledWith('server1', { command: 'cmd1' }, mockConfig);
+      expect(restartClient).toHaveBeenCalledWith('server2', { command: 'cmd2' }, mockConfig);
 
       // Verify result
       expect(result).toEqual({
@@ -192,13 +178,11 @@ describe('Prompt Handlers', () => {
     });
 
     it('should handle restart_server prompt with non-existent server', async () => {
-      // Mock loadConfig
       const mockConfig = {
         mcpServers: {
           server1: { command: 'cmd1' },
         },
       };
-      vi.mocked(loadConfig).mockResolvedValueOnce(mockConfig);
 
       // Create a request object with a non-existent server
       const request = {
@@ -210,10 +194,7 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleGetPromptRequest(request);
-
-      // Verify config was loaded
-      expect(loadConfig).toHaveBeenCalledTimes(1);
+      const result = await handleGetPromptRequest(request, mockConfig);
 
       // Verify no client restart was attempted
       expect(restartClient).not.toHaveBeenCalled();
@@ -240,7 +221,7 @@ describe('Prompt Handlers', () => {
 
       try {
         // Call the handler with the request
-        await handleGetPromptRequest(request);
+        await handleGetPromptRequest(request, { mcpServers: {} });
         // If it doesn't throw, the test should fail
         expect(true).toBe(false);
       } catch (error: unknown) {
@@ -255,13 +236,11 @@ describe('Prompt Handlers', () => {
     });
 
     it('should handle restart_server prompt with server restart error', async () => {
-      // Mock loadConfig
       const mockConfig = {
         mcpServers: {
           server1: { command: 'cmd1' },
         },
       };
-      vi.mocked(loadConfig).mockResolvedValueOnce(mockConfig);
 
       // Mock restartClient to throw an error
       const errorMessage = 'Failed to start process';
@@ -277,7 +256,7 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleGetPromptRequest(request);
+      const result = await handleGetPromptRequest(request, mockConfig);
 
       // Verify error handling
       expect(result).toEqual({
@@ -408,18 +387,19 @@ describe('Prompt Handlers', () => {
         description: 'Restart a specified server or all servers',
         name: 'restart_server',
       });
+
+      // The failing client keeps the routes of its last listing
+      expect(clientMaps.clearPromptMap).toHaveBeenCalledWith(['client1']);
     });
   });
 
   describe('handleRestartServerPrompt', () => {
     it('should restart a specific server', async () => {
-      // Mock loadConfig
       const mockConfig = {
         mcpServers: {
           server1: { command: 'cmd1' },
         },
       };
-      vi.mocked(loadConfig).mockResolvedValueOnce(mockConfig);
 
       // Mock restartClient to return a client
       vi.mocked(restartClient).mockResolvedValueOnce({
@@ -438,7 +418,7 @@ describe('Prompt Handlers', () => {
       };
 
       // Call the handler with the request
-      const result = await handleRestartServerPrompt(request);
+      const result = await handleRestartServerPrompt(request, mockConfig);
 
       // Verify result
       expect(result).toEqual({
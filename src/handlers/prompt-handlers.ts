@@ -1,6 +1,17 @@
 import { ConnectedClient, restartClient } from '../client.js';
 import { clientMaps } from '../mappers/client-maps.js';
-import { loadConfig } from '../config.js';
+import { serverStatusService } from '../services/server-status-service.js';
+import { metricsService } from '../services/metrics-service.js';
+import { downstreamRequestService } from '../services/downstream-request-service.js';
+import { Config, ServerConfigs } from '../config.js';
+import { buildUpstreamRequestOptions, DownstreamContext } from '../utils/request-options-utils.js';
+import { fetchAllPages } from '../utils/pagination-utils.js';
+import {
+  buildSkippedMeta,
+  fanOut,
+  ignoreMethodNotFound,
+  resolveListDeadline,
+} from '../utils/fan-out-utils.js';
 import { GetPromptResultSchema, ListPromptsResultSchema } from '@modelcontextprotocol/sdk/types.js';
 
 type PromptArgument = {
@@ -17,22 +28,27 @@ type PromptType = {
 
 /**
  * Handles a request to get a prompt by name
+ * @param downstream The downstream request, whose progress and cancellation are passed through
  */
-export async function handleGetPromptRequest(request: {
-  params: {
-    name: string;
-    _meta?: {
-      progressToken?: string | number;
-    };
-    arguments?: Record<string, unknown>;
-  } & { [k: string]: unknown };
-  method: 'prompts/get';
-}) {
+export async function handleGetPromptRequest(
+  request: {
+    params: {
+      name: string;
+      _meta?: {
+        progressToken?: string | number;
+      };
+      arguments?: Record<string, unknown>;
+    } & { [k: string]: unknown };
+    method: 'prompts/get';
+  },
+  config: Config,
+  downstream?: DownstreamContext
+) {
   const { name } = request.params;
 
   // Special case for restart_server prompt
   if (name === 'restart_server') {
-    return handleRestartServerPrompt(request);
+    return handleRestartServerPrompt(request, config);
   }
 
   const clientForPrompt = clientMaps.getClientForPrompt(name);
@@ -44,20 +60,26 @@ export async function handleGetPromptRequest(request: {
 
   try {
     // Match the exact structure from the example code
-    const response = await clientForPrompt.client.request(
-      {
-        method: 'prompts/get' as const,
-        params: {
-          name,
-          arguments: request.params.arguments || {},
-          _meta: request.params._meta || {
-            progressToken: undefined,
+    const response = await downstreamRequestService.run(clientForPrompt.name, downstream, () =>
+      metricsService.observe({ server: clientForPrompt.name, method: 'prompts/get', name }, () =>
+        clientForPrompt.client.request(
+          {
+            method: 'prompts/get' as const,
+            params: {
+              name,
+              arguments: request.params.arguments || {},
+              _meta: request.params._meta || {
+                progressToken: undefined,
+              },
+            },
           },
-        },
-      },
-      GetPromptResultSchema
+          GetPromptResultSchema,
+          buildUpstreamRequestOptions(undefined, request.params._meta?.progressToken, downstream)
+        )
+      )
     );
     console.log(`Received prompt response for '${name}':`, response);
+    serverStatusService.recordSuccessfulCall(clientForPrompt.name);
 
     return response;
   } catch (error) {
@@ -69,6 +91,8 @@ export async function handleGetPromptRequest(request: {
 
 /**
  * Handles a request to list all available prompts
+ * @param serverConfigs Backend configs, for their timeouts
+ * @param globalTimeoutSec Timeout for backends without their own
  */
 export async function handleListPromptsRequest(
   request: {
@@ -80,12 +104,12 @@ export async function handleListPromptsRequest(
     };
     method: 'prompts/list';
   },
-  connectedClients: ConnectedClient[]
+  connectedClients: ConnectedClient[],
+  serverConfigs: ServerConfigs = {},
+  globalTimeoutSec?: number
 ) {
   const allPrompts: Array<PromptType> = [];
 
-  clientMaps.clearPromptMap();
-
   // Add the restart_server prompt
   allPrompts.push({
     name: 'restart_server',
@@ -99,61 +123,73 @@ export async function handleListPromptsRequest(
     ],
   });
 
-  for (const connectedClient of connectedClients) {
-    try {
-      const result = await connectedClient.client.request(
-        {
-          method: 'prompts/list' as const,
-          params: {
-            cursor: request.params?.cursor,
-            _meta: request.params?._meta || {
-              progressToken: undefined,
-            },
-          },
-        },
-        ListPromptsResultSchema
-      );
-
-      // Add server name to description for clarity
-      const serverPrompts = result.prompts.map((prompt) => ({
-        ...prompt,
-        description: `[${connectedClient.name}] ${prompt.description}`,
-      }));
-
-      // Register prompts in the client map
-      for (const prompt of serverPrompts) {
-        clientMaps.mapPromptToClient(prompt.name, connectedClient);
-      }
-
-      allPrompts.push(...serverPrompts);
-    } catch (error) {
-      const hasErrorCode = typeof error === 'object' && error !== null && 'code' in error;
-      if (!hasErrorCode || error.code !== -32601) {
-        // ignore -32601 Method not found error
-        console.error(`Error fetching prompts from ${connectedClient.name}:`, error);
-      }
+  const { results, skipped } = await fanOut(
+    connectedClients,
+    (connectedClient) =>
+      ignoreMethodNotFound(
+        fetchAllPages(
+          'prompts',
+          (cursor) =>
+            connectedClient.client.request(
+              {
+                method: 'prompts/list' as const,
+                params: {
+                  cursor,
+                  _meta: request.params?._meta || {
+                    progressToken: undefined,
+                  },
+                },
+              },
+              ListPromptsResultSchema
+            ),
+          `prompts from ${connectedClient.name}`
+        )
+      ),
+    (connectedClient) =>
+      resolveListDeadline(globalTimeoutSec, serverConfigs[connectedClient.name]?.timeout),
+    'prompts'
+  );
+
+  clientMaps.clearPromptMap(skipped.map(({ server }) => server));
+  for (const { client: connectedClient, value: prompts } of results) {
+    // Add server name to description for clarity
+    const serverPrompts = prompts.map((prompt) => ({
+      ...prompt,
+      description: `[${connectedClient.name}] ${prompt.description}`,
+    }));
+
+    // Register prompts in the client map
+    for (const prompt of serverPrompts) {
+      clientMaps.mapPromptToClient(prompt.name, connectedClient);
     }
+
+    allPrompts.push(...serverPrompts);
   }
 
   return {
     prompts: allPrompts,
-    nextCursor: request.params?.cursor,
+    nextCursor: undefined,
+    ...buildSkippedMeta(skipped),
   };
 }
 
 /**
  * Handler function for the restart_server prompt
+ * @param config The config currently in effect, so restarts use the same settings as the rest of the hub
  */
-export async function handleRestartServerPrompt(request: {
-  params: {
-    name: string;
-    _meta?: {
-      progressToken?: string | number;
-    };
-    arguments?: Record<string, unknown>;
-  } & { [k: string]: unknown };
-  method: 'prompts/get';
-}) {
+export async function handleRestartServerPrompt(
+  request: {
+    params: {
+      name: string;
+      _meta?: {
+        progressToken?: string | number;
+      };
+      arguments?: Record<string, unknown>;
+    } & { [k: string]: unknown };
+    method: 'prompts/get';
+  },
+  config: Config
+) {
   console.log('Handling restart_server prompt', request);
 
   // Get the server name from the arguments
@@ -163,16 +199,13 @@ export async function handleRestartServerPrompt(request: {
     throw new Error('Server name is required to restart a server');
   }
 
-  // Load the current configuration
-  const config = await loadConfig();
-
   try {
     if (serverName.toLowerCase() === 'all') {
       // Restart all servers
       console.log('Restarting all servers');
       const allServerRestarts = await Promise.all(
         Object.entries(config.mcpServers).map(async ([name, serverConfig]) => {
-          const client = await restartClient(name, serverConfig);
+          const client = await restartClient(name, serverConfig, config);
           return { name, success: !!client };
         })
       );
@@ -194,7 +227,7 @@ export async function handleRestartServerPrompt(request: {
       }
 
       // Restart the server
-      const client = await restartClient(serverName, serverConfig);
+      const client = await restartClient(serverName, serverConfig, config);
 
       if (client) {
         return {
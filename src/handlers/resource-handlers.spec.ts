@@ -5,15 +5,21 @@ import {
   ReadResourceResultSchema,
   ListResourceTemplatesRequestSchema,
   ListResourceTemplatesResultSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ConnectedClient } from '../client.js';
 import { clientMaps } from '../mappers/client-maps.js';
+import { SKIPPED_SERVERS_META_KEY } from '../utils/fan-out-utils.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   registerListResourcesHandler,
   registerReadResourceHandler,
   registerListResourceTemplatesHandler,
+  registerSubscribeResourceHandler,
+  registerUnsubscribeResourceHandler,
 } from './resource-handlers.js';
+import { resourceSubscriptionService } from '../services/resource-subscription-service.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 
@@ -30,10 +36,19 @@ vi.mock('../mappers/client-maps.js', () => {
       clearResourceMap: vi.fn(),
       mapResourceToClient: vi.fn(),
       getClientForResource: vi.fn(),
+      clearResourceTemplateMap: vi.fn(),
+      mapResourceTemplateToClient: vi.fn(),
     },
   };
 });
 
+vi.mock('../services/resource-subscription-service.js', () => ({
+  resourceSubscriptionService: {
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+  },
+}));
+
 // Import getConnectedClient after mocking
 import { getConnectedClient } from '../client.js';
 
@@ -210,7 +225,11 @@ describe('Resource Handlers', () => {
           { uri: 'res:client2/resource3', name: '[client2] Resource 3', mimeType: 'text/plain' },
         ],
         nextCursor: undefined,
+        _meta: { [SKIPPED_SERVERS_META_KEY]: [{ server: 'client1', reason: 'Client 1 error' }] },
       });
+
+      // The skipped client keeps the routes of its last listing
+      expect(clientMaps.clearResourceMap).toHaveBeenCalledWith(['client1']);
     });
 
     it('should handle empty resources array from clients', async () => {
@@ -286,7 +305,8 @@ describe('Resource Handlers', () => {
             },
           },
         },
-        ReadResourceResultSchema
+        ReadResourceResultSchema,
+        undefined
       );
 
       // Verify result
@@ -359,6 +379,30 @@ describe('Resource Handlers', () => {
       );
     });
 
+    it('should map resource templates to their clients', async () => {
+      registerListResourceTemplatesHandler(server);
+      const listResourceTemplatesHandler = mockRequestHandler.mock.calls[0][1];
+
+      client1RequestMock.mockResolvedValueOnce({
+        resourceTemplates: [{ name: 'file', uriTemplate: 'file:///{path}' }],
+      });
+      client2RequestMock.mockResolvedValueOnce({
+        resourceTemplates: [{ name: 'issue', uriTemplate: 'issue://{id}' }],
+      });
+
+      await listResourceTemplatesHandler({ params: {} });
+
+      expect(clientMaps.clearResourceTemplateMap).toHaveBeenCalled();
+      expect(clientMaps.mapResourceTemplateToClient).toHaveBeenCalledWith(
+        'file:///{path}',
+        connectedClients[0]
+      );
+      expect(clientMaps.mapResourceTemplateToClient).toHaveBeenCalledWith(
+        'issue://{id}',
+        connectedClients[1]
+      );
+    });
+
     it('should aggregate resource templates from all connected clients', async () => {
       registerListResourceTemplatesHandler(server);
 
@@ -497,7 +541,9 @@ describe('Resource Handlers', () => {
           },
         ],
         nextCursor: undefined,
+        _meta: { [SKIPPED_SERVERS_META_KEY]: [{ server: 'client1', reason: 'Client 1 error' }] },
       });
+      expect(clientMaps.clearResourceTemplateMap).toHaveBeenCalledWith(['client1']);
     });
 
     it('should handle empty resourceTemplates array from clients', async () => {
@@ -520,4 +566,41 @@ describe('Resource Handlers', () => {
       expect(result).toEqual({ resourceTemplates: [], nextCursor: undefined });
     });
   });
+
+  describe('registerSubscribeResourceHandler', () => {
+    it('should subscribe the session to the resource', async () => {
+      registerSubscribeResourceHandler(server, 'session-1');
+
+      expect(mockRequestHandler).toHaveBeenCalledWith(SubscribeRequestSchema, expect.any(Function));
+      const subscribeHandler = mockRequestHandler.mock.calls[0][1];
+
+      const result = await subscribeHandler({ params: { uri: 'res:client1/resource1' } });
+
+      expect(resourceSubscriptionService.subscribe).toHaveBeenCalledWith(
+        'session-1',
+        'res:client1/resource1'
+      );
+      expect(result).toEqual({});
+    });
+  });
+
+  describe('registerUnsubscribeResourceHandler', () => {
+    it('should unsubscribe the session from the resource', async () => {
+      registerUnsubscribeResourceHandler(server, 'session-1');
+
+      expect(mockRequestHandler).toHaveBeenCalledWith(
+        UnsubscribeRequestSchema,
+        expect.any(Function)
+      );
+      const unsubscribeHandler = mockRequestHandler.mock.calls[0][1];
+
+      const result = await unsubscribeHandler({ params: { uri: 'res:client1/resource1' } });
+
+      expect(resourceSubscriptionService.unsubscribe).toHaveBeenCalledWith(
+        'session-1',
+        'res:client1/resource1'
+      );
+      expect(result).toEqual({});
+    });
+  });
 });
@@ -1,69 +1,121 @@
 import {
+  ListResourcesRequest,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
   ListResourcesResultSchema,
   ReadResourceResultSchema,
+  ListResourceTemplatesRequest,
   ListResourceTemplatesRequestSchema,
   ListResourceTemplatesResultSchema,
   ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { getConnectedClient } from '../client.js';
 import { clientMaps } from '../mappers/client-maps.js';
+import { serverStatusService } from '../services/server-status-service.js';
+import { metricsService } from '../services/metrics-service.js';
+import { downstreamRequestService } from '../services/downstream-request-service.js';
+import { resourceSubscriptionService } from '../services/resource-subscription-service.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { buildUpstreamRequestOptions } from '../utils/request-options-utils.js';
+import { fetchAllPages } from '../utils/pagination-utils.js';
+import {
+  buildSkippedMeta,
+  fanOut,
+  ignoreMethodNotFound,
+  resolveListDeadline,
+} from '../utils/fan-out-utils.js';
+import { Config } from '../config.js';
 
 /**
- * Registers list resources handler on the server
+ * Settings the list handlers read per request, for the backend timeouts
  */
-export function registerListResourcesHandler(server: Server): void {
-  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
-    const connectedClients = getConnectedClient();
-    const allResources: Resource[] = [];
-    clientMaps.clearResourceMap();
-
-    for (const connectedClient of connectedClients) {
-      try {
-        const result = await connectedClient.client.request(
-          {
-            method: 'resources/list',
-            params: {
-              cursor: request.params?.cursor,
-              _meta: request.params?._meta,
-            },
-          },
-          ListResourcesResultSchema
-        );
-
-        if (result.resources) {
-          const resourcesWithSource = result.resources.map((resource) => {
-            clientMaps.mapResourceToClient(resource.uri, connectedClient);
-            return {
-              ...resource,
-              name: `[${connectedClient.name}] ${resource.name || ''}`,
-            };
-          });
-          allResources.push(...resourcesWithSource);
-        }
-      } catch (error) {
-        const hasErrorCode = typeof error === 'object' && error !== null && 'code' in error;
-        if (!hasErrorCode || error.code !== -32601) {
-          console.error(`Error fetching resources from ${connectedClient.name}:`, error);
-        }
-      }
-    }
+type GetListConfig = () => Pick<Config, 'mcpServers' | 'timeout'>;
 
-    return {
-      resources: allResources,
-      nextCursor: undefined,
-    };
-  });
+/**
+ * Reads the config once per request and resolves each backend's list deadline from it
+ */
+function createDeadlineResolver(getConfig?: GetListConfig) {
+  const config = getConfig?.();
+  return (serverName: string) =>
+    resolveListDeadline(config?.timeout, config?.mcpServers[serverName]?.timeout);
+}
+
+/**
+ * Handles a request to list the resources of all backends.
+ * This also rebuilds the resource routing table.
+ * @param getConfig Returns the config in effect, for the backend timeouts
+ */
+export async function handleListResourcesRequest(
+  request: ListResourcesRequest,
+  getConfig?: GetListConfig
+) {
+  const connectedClients = getConnectedClient();
+  const resolveDeadline = createDeadlineResolver(getConfig);
+  const allResources: Resource[] = [];
+
+  const { results, skipped } = await fanOut(
+    connectedClients,
+    (connectedClient) =>
+      ignoreMethodNotFound(
+        fetchAllPages(
+          'resources',
+          (cursor) =>
+            connectedClient.client.request(
+              {
+                method: 'resources/list',
+                params: {
+                  cursor,
+                  _meta: request.params?._meta,
+                },
+              },
+              ListResourcesResultSchema
+            ),
+          `resources from ${connectedClient.name}`
+        )
+      ),
+    (connectedClient) => resolveDeadline(connectedClient.name),
+    'resources'
+  );
+
+  // Rebuilt only once every backend answered, so reads are never routed by a half-built map.
+  // Backends that did not answer keep the routes of their last listing.
+  clientMaps.clearResourceMap(skipped.map(({ server }) => server));
+  for (const { client: connectedClient, value: resources } of results) {
+    const resourcesWithSource = resources.map((resource) => {
+      clientMaps.mapResourceToClient(resource.uri, connectedClient);
+      return {
+        ...resource,
+        name: `[${connectedClient.name}] ${resource.name || ''}`,
+      };
+    });
+    allResources.push(...resourcesWithSource);
+  }
+
+  return {
+    resources: allResources,
+    nextCursor: undefined,
+    ...buildSkippedMeta(skipped),
+  };
+}
+
+/**
+ * Registers list resources handler on the server
+ * @param getConfig Returns the config in effect, for the backend timeouts
+ */
+export function registerListResourcesHandler(server: Server, getConfig?: GetListConfig): void {
+  server.setRequestHandler(ListResourcesRequestSchema, (request) =>
+    handleListResourcesRequest(request, getConfig)
+  );
 }
 
 /**
  * Registers read resource handler on the server
  */
 export function registerReadResourceHandler(server: Server): void {
-  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
     const { uri } = request.params;
     const clientForResource = clientMaps.getClientForResource(uri);
 
@@ -72,16 +124,25 @@ export function registerReadResourceHandler(server: Server): void {
     }
 
     try {
-      return await clientForResource.client.request(
-        {
-          method: 'resources/read',
-          params: {
-            uri,
-            _meta: request.params._meta,
-          },
-        },
-        ReadResourceResultSchema
+      const result = await downstreamRequestService.run(clientForResource.name, extra, () =>
+        metricsService.observe(
+          { server: clientForResource.name, method: 'resources/read', name: '' },
+          () =>
+            clientForResource.client.request(
+              {
+                method: 'resources/read',
+                params: {
+                  uri,
+                  _meta: request.params._meta,
+                },
+              },
+              ReadResourceResultSchema,
+              buildUpstreamRequestOptions(undefined, request.params._meta?.progressToken, extra)
+            )
+        )
       );
+      serverStatusService.recordSuccessfulCall(clientForResource.name);
+      return result;
     } catch (error) {
       console.error(`Error reading resource from ${clientForResource.name}:`, error);
       throw error;
@@ -90,49 +151,97 @@ export function registerReadResourceHandler(server: Server): void {
 }
 
 /**
- * Registers list resource templates handler on the server
+ * Handles a request to list the resource templates of all backends.
+ * This also rebuilds the resource template routing table.
+ * @param getConfig Returns the config in effect, for the backend timeouts
  */
-export function registerListResourceTemplatesHandler(server: Server): void {
-  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request) => {
-    const connectedClients = getConnectedClient();
-    const allTemplates: ResourceTemplate[] = [];
-
-    for (const connectedClient of connectedClients) {
-      try {
-        const result = await connectedClient.client.request(
-          {
-            method: 'resources/templates/list' as const,
-            params: {
-              cursor: request.params?.cursor,
-              _meta: request.params?._meta || {
-                progressToken: undefined,
+export async function handleListResourceTemplatesRequest(
+  request: ListResourceTemplatesRequest,
+  getConfig?: GetListConfig
+) {
+  const connectedClients = getConnectedClient();
+  const resolveDeadline = createDeadlineResolver(getConfig);
+  const allTemplates: ResourceTemplate[] = [];
+
+  const { results, skipped } = await fanOut(
+    connectedClients,
+    (connectedClient) =>
+      ignoreMethodNotFound(
+        fetchAllPages(
+          'resourceTemplates',
+          (cursor) =>
+            connectedClient.client.request(
+              {
+                method: 'resources/templates/list' as const,
+                params: {
+                  cursor,
+                  _meta: request.params?._meta || {
+                    progressToken: undefined,
+                  },
+                },
               },
-            },
-          },
-          ListResourceTemplatesResultSchema
-        );
-
-        if (result.resourceTemplates) {
-          const templatesWithSource = result.resourceTemplates.map((template) => ({
-            ...template,
-            name: `[${connectedClient.name}] ${template.name || ''}`,
-            description: template.description
-              ? `[${connectedClient.name}] ${template.description}`
-              : undefined,
-          }));
-          allTemplates.push(...templatesWithSource);
-        }
-      } catch (error) {
-        const hasErrorCode = typeof error === 'object' && error !== null && 'code' in error;
-        if (!hasErrorCode || error.code !== -32601) {
-          console.error(`Error fetching resource templates from ${connectedClient.name}:`, error);
-        }
-      }
-    }
+              ListResourceTemplatesResultSchema
+            ),
+          `resource templates from ${connectedClient.name}`
+        )
+      ),
+    (connectedClient) => resolveDeadline(connectedClient.name),
+    'resource templates'
+  );
+
+  clientMaps.clearResourceTemplateMap(skipped.map(({ server }) => server));
+  for (const { client: connectedClient, value: resourceTemplates } of results) {
+    const templatesWithSource = resourceTemplates.map((template) => {
+      clientMaps.mapResourceTemplateToClient(template.uriTemplate, connectedClient);
+      return {
+        ...template,
+        name: `[${connectedClient.name}] ${template.name || ''}`,
+        description: template.description
+          ? `[${connectedClient.name}] ${template.description}`
+          : undefined,
+      };
+    });
+    allTemplates.push(...templatesWithSource);
+  }
 
-    return {
-      resourceTemplates: allTemplates,
-      nextCursor: request.params?.cursor,
-    };
+  return {
+    resourceTemplates: allTemplates,
+    nextCursor: undefined,
+    ...buildSkippedMeta(skipped),
+  };
+}
+
+/**
+ * Registers list resource templates handler on the server
+ * @param getConfig Returns the config in effect, for the backend timeouts
+ */
+export function registerListResourceTemplatesHandler(
+  server: Server,
+  getConfig?: GetListConfig
+): void {
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, (request) =>
+    handleListResourceTemplatesRequest(request, getConfig)
+  );
+}
+
+/**
+ * Registers subscribe resource handler on the server
+ * @param sessionId The proxy session the server belongs to
+ */
+export function registerSubscribeResourceHandler(server: Server, sessionId: string): void {
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await resourceSubscriptionService.subscribe(sessionId, request.params.uri);
+    return {};
+  });
+}
+
+/**
+ * Registers unsubscribe resource handler on the server
+ * @param sessionId The proxy session the server belongs to
+ */
+export function registerUnsubscribeResourceHandler(server: Server, sessionId: string): void {
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    await resourceSubscriptionService.unsubscribe(sessionId, request.params.uri);
+    return {};
   });
 }
@@ -12,11 +12,12 @@ vi.mock('../services/tool-service.js', () => ({
   toolService: {
     fetchToolsFromClient: vi.fn(),
     validateToolAccess: vi.fn(),
+    applyConfiguredArgs: vi.fn((_toolName, _originalToolName, args) => args),
+    checkToolArguments: vi.fn(),
     executeToolCall: vi.fn(),
     filterTools: vi.fn(),
     processToolName: vi.fn(),
     prefixToolDescription: vi.fn(),
-    isToolAllowed: vi.fn(),
   },
 }));
 
@@ -29,7 +30,6 @@ vi.mock('../services/custom-tool-service.js', () => ({
 
 vi.mock('../mappers/client-maps.js', () => ({
   clientMaps: {
-    clearToolMap: vi.fn(),
     mapToolToClient: vi.fn(),
     mapCustomToolToClient: vi.fn(),
     getClientForTool: vi.fn(),
@@ -131,6 +131,7 @@ describe('Tool Call Handler', () => {
       { progressToken: 'token123' },
       config.mcpServers,
       config.envVars,
+      undefined,
       undefined
     );
 
@@ -174,6 +175,34 @@ describe('Tool Call Handler', () => {
     expect(result).toStrictEqual(mockResult);
   });
 
+  it('should tie the upstream request to the downstream one', async () => {
+    vi.mocked(clientMaps.getClientForTool).mockReturnValueOnce(mockClient);
+    vi.mocked(toolService.executeToolCall).mockResolvedValueOnce({ content: [] });
+    const controller = new AbortController();
+    const downstream = {
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+      sendRequest: vi.fn(),
+      signal: controller.signal,
+    };
+
+    const request = {
+      method: 'tools/call' as const,
+      params: { name: 'tool1', arguments: {}, _meta: { progressToken: 'token123' } },
+    };
+
+    await handleToolCall(request, { ...config, timeout: 30 }, downstream);
+
+    const options = vi.mocked(toolService.executeToolCall).mock.calls[0][5];
+    expect(options?.timeout).toBe(30000);
+    expect(options?.signal).toBe(controller.signal);
+
+    options?.onprogress?.({ progress: 1, total: 3 });
+    expect(downstream.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progress: 1, total: 3, progressToken: 'token123' },
+    });
+  });
+
   it('should handle tool with original name mapping', async () => {
     // Setup client with tool mapping
     mockClient.client.toolMappings = {
@@ -492,7 +521,8 @@ describe('Tool Call Handler', () => {
         undefined,
         configWithGlobalTimeout.mcpServers,
         configWithGlobalTimeout.envVars,
-        30
+        30,
+        undefined
       );
     });
   });
@@ -1,14 +1,17 @@
 import { clientMaps } from '../mappers/client-maps.js';
 import { toolService } from '../services/tool-service.js';
 import { customToolService } from '../services/custom-tool-service.js';
+import { downstreamRequestService } from '../services/downstream-request-service.js';
 import { expandEnvVars, unexpandEnvVars, combineEnvVars } from '../utils/env-var-utils.js';
 import { JsonObject } from '../types/json.js';
 import { Config } from '../config.js';
 import { logUnknownTool } from '../utils/debug-utils.js';
 import { resolveTimeoutOptions } from '../utils/timeout-utils.js';
+import { buildUpstreamRequestOptions, DownstreamContext } from '../utils/request-options-utils.js';
 
 /**
  * Handles tool call requests
+ * @param downstream The downstream request, whose progress and cancellation are passed through
  */
 export async function handleToolCall(
   request: {
@@ -21,7 +24,8 @@ export async function handleToolCall(
     } & { [k: string]: unknown };
     method: 'tools/call';
   },
-  config: Config
+  config: Config,
+  downstream?: DownstreamContext
 ) {
   const { name: toolName, arguments: args } = request.params;
 
@@ -43,7 +47,8 @@ export async function handleToolCall(
       request.params._meta,
       config.mcpServers,
       config.envVars,
-      config.timeout
+      config.timeout,
+      downstream
     );
   }
 
@@ -62,20 +67,41 @@ export async function handleToolCall(
   // Combine global and server-specific environment variables
   const combinedEnvVars = combineEnvVars(config.envVars, serverConfig?.envVars);
 
+  // Validate the arguments against the tool's inputSchema if configured
+  const argumentError = toolService.checkToolArguments(
+    toolName,
+    originalToolName || toolName,
+    args ?? {},
+    clientForTool,
+    serverConfig
+  );
+  if (argumentError) {
+    return argumentError;
+  }
+
+  // Apply the fixed and default arguments configured for the tool
+  const callArgs = toolService.applyConfiguredArgs(
+    toolName,
+    originalToolName || toolName,
+    args ?? {},
+    serverConfig
+  );
+
   // Expand environment variables in arguments if configured
-  const expandedArgs =
-    // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-    args != null ? expandEnvVars(args as JsonObject, combinedEnvVars) : {};
+  // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+  const expandedArgs = expandEnvVars(callArgs as JsonObject, combinedEnvVars);
 
   // Execute the tool call
-  const result = await toolService.executeToolCall(
-    toolName,
-    // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-    expandedArgs as Record<string, unknown>,
-    clientForTool,
-    request.params._meta,
-    originalToolName,
-    timeoutOptions
+  const result = await downstreamRequestService.run(clientForTool.name, downstream, () =>
+    toolService.executeToolCall(
+      toolName,
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      expandedArgs as Record<string, unknown>,
+      clientForTool,
+      request.params._meta,
+      originalToolName,
+      buildUpstreamRequestOptions(timeoutOptions, request.params._meta?.progressToken, downstream)
+    )
   );
 
   // Unexpand environment variables in response if configured
@@ -13,13 +13,14 @@ import { Config, ServerName, ServerConfig } from '../config.js';
 vi.mock('../services/tool-service.js', () => ({
   toolService: {
     fetchToolsFromClient: vi.fn(),
+    addToolRoutes: vi.fn(),
     validateToolAccess: vi.fn(),
+    applyConfiguredArgs: vi.fn((_toolName, _originalToolName, args) => args),
+    checkToolArguments: vi.fn(),
     executeToolCall: vi.fn(),
-    filterTools: vi.fn(),
-    applyToolNameMapping: vi.fn(),
+    exposeTools: vi.fn(),
     processToolName: vi.fn(),
     prefixToolDescription: vi.fn(),
-    isToolAllowed: vi.fn(),
   },
 }));
 
@@ -32,7 +33,7 @@ vi.mock('../services/custom-tool-service.js', () => ({
 
 vi.mock('../mappers/client-maps.js', () => ({
   clientMaps: {
-    clearToolMap: vi.fn(),
+    replaceToolMap: vi.fn(),
     mapToolToClient: vi.fn(),
     mapCustomToolToClient: vi.fn(),
     getClientForTool: vi.fn(),
@@ -86,7 +87,13 @@ describe('Tool Handlers', () => {
   });
 
   describe('handleListToolsRequest', () => {
-    it('should clear the tool map and request tools from all clients', async () => {
+    const routed = (tools: Tool[]) => tools.map((tool) => ({ tool, originalName: tool.name }));
+
+    beforeEach(() => {
+      vi.mocked(toolService.exposeTools).mockImplementation(routed);
+    });
+
+    it('should replace the tool map and request tools from all clients', async () => {
       // Mock the service responses
       const client1Tools: Tool[] = [
         { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
@@ -97,10 +104,6 @@ describe('Tool Handlers', () => {
 
       vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(client1Tools);
       vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(client2Tools);
-      vi.mocked(toolService.filterTools).mockReturnValueOnce(client1Tools);
-      vi.mocked(toolService.filterTools).mockReturnValueOnce(client2Tools);
-      vi.mocked(toolService.applyToolNameMapping).mockReturnValueOnce(client1Tools);
-      vi.mocked(toolService.applyToolNameMapping).mockReturnValueOnce(client2Tools);
       vi.mocked(customToolService.createCustomTools).mockReturnValueOnce([]);
 
       const request = {
@@ -110,24 +113,29 @@ describe('Tool Handlers', () => {
 
       const result = await handleListToolsRequest(request, connectedClients, serverConfigs);
 
-      // Verify map was cleared
-      expect(clientMaps.clearToolMap).toHaveBeenCalledTimes(1);
+      // Verify the routing table was built and swapped in
+      expect(toolService.addToolRoutes).toHaveBeenCalledWith(
+        expect.any(Map),
+        routed(client1Tools),
+        mockClient1
+      );
+      expect(clientMaps.replaceToolMap).toHaveBeenCalledTimes(1);
 
       // Verify service calls with correct parameters
       expect(toolService.fetchToolsFromClient).toHaveBeenCalledTimes(2);
       expect(toolService.fetchToolsFromClient).toHaveBeenNthCalledWith(
         1,
         mockClient1,
-        serverConfigs.client1,
         { test: 'metadata' },
-        undefined
+        undefined,
+        serverConfigs.client1
       );
       expect(toolService.fetchToolsFromClient).toHaveBeenNthCalledWith(
         2,
         mockClient2,
-        serverConfigs.client2,
         { test: 'metadata' },
-        undefined
+        undefined,
+        serverConfigs.client2
       );
 
       // Verify result includes tools from both clients
@@ -148,8 +156,6 @@ describe('Tool Handlers', () => {
         { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
       ];
       vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(client2Tools);
-      vi.mocked(toolService.filterTools).mockReturnValueOnce(client2Tools);
-      vi.mocked(toolService.applyToolNameMapping).mockReturnValueOnce(client2Tools);
       vi.mocked(customToolService.createCustomTools).mockReturnValueOnce([]);
 
       const request = {
@@ -175,15 +181,17 @@ describe('Tool Handlers', () => {
       const clientTools: Tool[] = [
         { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
       ];
+      const otherClientTools: Tool[] = [
+        { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
+      ];
 
       // Mock custom tools
       const customTools: Tool[] = [
         { name: 'customTool', description: 'Custom Tool', inputSchema: { type: 'object' } },
       ];
 
-      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValue(clientTools);
-      vi.mocked(toolService.filterTools).mockReturnValue(clientTools);
-      vi.mocked(toolService.applyToolNameMapping).mockReturnValue(clientTools);
+      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(clientTools);
+      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(otherClientTools);
       vi.mocked(customToolService.createCustomTools).mockReturnValueOnce(customTools);
 
       const request = {
@@ -206,10 +214,12 @@ describe('Tool Handlers', () => {
       const clientTools: Tool[] = [
         { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
       ];
+      const otherClientTools: Tool[] = [
+        { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
+      ];
 
-      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValue(clientTools);
-      vi.mocked(toolService.filterTools).mockReturnValue(clientTools);
-      vi.mocked(toolService.applyToolNameMapping).mockReturnValue(clientTools);
+      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(clientTools);
+      vi.mocked(toolService.fetchToolsFromClient).mockResolvedValueOnce(otherClientTools);
       vi.mocked(customToolService.createCustomTools).mockImplementationOnce(() => {
         throw new Error('Custom tool error');
       });
@@ -286,6 +296,7 @@ describe('Tool Handlers', () => {
         { progressToken: 'token123' },
         config.mcpServers,
         config.envVars,
+        undefined,
         undefined
       );
 
@@ -4,6 +4,10 @@ import { ConnectedClient } from '../client.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { ListToolsResultSchema } from '@modelcontextprotocol/sdk/types.js';
 import { ServerConfigs } from '../config.js';
+import { SKIPPED_SERVERS_META_KEY } from '../utils/fan-out-utils.js';
+import { TOOL_CONFLICTS_META_KEY } from '../utils/tool-conflict-utils.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
+import { clientMaps } from '../mappers/client-maps.js';
 
 describe('Tool List Handler', () => {
   let mockClient1: ConnectedClient;
@@ -57,6 +61,30 @@ describe('Tool List Handler', () => {
     );
   });
 
+  it('should read every page of tools from a paginating backend', async () => {
+    vi.mocked(mockClient1.client.request)
+      .mockResolvedValueOnce({
+        tools: [{ name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } }],
+        nextCursor: 'page-2',
+      })
+      .mockResolvedValueOnce({
+        tools: [{ name: 'tool3', description: 'Tool 3', inputSchema: { type: 'object' } }],
+      });
+
+    const result = await handleListToolsRequest(
+      { method: 'tools/list', params: {} },
+      connectedClients,
+      serverConfigs
+    );
+
+    expect(mockClient1.client.request).toHaveBeenLastCalledWith(
+      { method: 'tools/list', params: { cursor: 'page-2', _meta: undefined } },
+      ListToolsResultSchema,
+      undefined
+    );
+    expect(result.tools.map((tool) => tool.name)).toEqual(['tool1', 'tool3', 'tool2']);
+  });
+
   it('should clear tool map and aggregate tools from all clients', async () => {
     const request = {
       method: 'tools/list' as const,
@@ -300,6 +328,21 @@ describe('Tool List Handler', () => {
     expect(originalTool).toBeUndefined();
   });
 
+  it('should list the skipped servers in _meta', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(mockClient1.client.request).mockRejectedValue(new Error('Client error'));
+
+    const result = await handleListToolsRequest(
+      { method: 'tools/list', params: {} },
+      connectedClients,
+      serverConfigs
+    );
+
+    expect(result._meta).toEqual({
+      [SKIPPED_SERVERS_META_KEY]: [{ server: 'client1', reason: 'Client error' }],
+    });
+  });
+
   it('should handle client.request errors gracefully', async () => {
     // Mock one client to throw an error
     vi.mocked(mockClient1.client.request).mockRejectedValue(new Error('Client error'));
@@ -369,4 +412,163 @@ describe('Tool List Handler', () => {
       );
     });
   });
+
+  describe('tool catalog', () => {
+    const request = { method: 'tools/list' as const, params: {} };
+
+    it('should serve cached tools until the backend is invalidated', async () => {
+      await handleListToolsRequest(request, connectedClients, serverConfigs);
+      const result = await handleListToolsRequest(request, connectedClients, serverConfigs);
+
+      expect(mockClient1.client.request).toHaveBeenCalledTimes(1);
+      expect(result.tools.map((tool) => tool.name)).toEqual(['tool1', 'tool2']);
+
+      toolCatalogService.invalidate('client1');
+      await handleListToolsRequest(request, connectedClients, serverConfigs);
+
+      expect(mockClient1.client.request).toHaveBeenCalledTimes(2);
+      expect(mockClient2.client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch every time with a TTL of 0', async () => {
+      await handleListToolsRequest(request, connectedClients, serverConfigs, undefined, 30, 0);
+      await handleListToolsRequest(request, connectedClients, serverConfigs, undefined, 30, 0);
+
+      expect(mockClient1.client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the last cached tools of a backend whose refetch is skipped', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await handleListToolsRequest(request, connectedClients, serverConfigs, undefined, 30, 0);
+      vi.mocked(mockClient1.client.request).mockRejectedValue(new Error('Client error'));
+
+      const result = await handleListToolsRequest(
+        request,
+        connectedClients,
+        serverConfigs,
+        undefined,
+        30,
+        0
+      );
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(['tool1', 'tool2']);
+      expect(result._meta).toEqual({
+        [SKIPPED_SERVERS_META_KEY]: [{ server: 'client1', reason: 'Client error' }],
+      });
+      expect(clientMaps.getClientForTool('tool1')).toBe(mockClient1);
+    });
+
+    it('should swap in a routing table for the listed tools', async () => {
+      clientMaps.mapToolToClient('removed', mockClient1);
+
+      await handleListToolsRequest(request, connectedClients, serverConfigs);
+
+      expect(clientMaps.getClientForTool('tool1')).toBe(mockClient1);
+      expect(clientMaps.getClientForTool('tool2')).toBe(mockClient2);
+      expect(clientMaps.getClientForTool('removed')).toBeUndefined();
+    });
+  });
+
+  describe('tool name conflicts', () => {
+    const request = { method: 'tools/list' as const, params: {} };
+
+    beforeEach(() => {
+      vi.mocked(mockClient2.client.request).mockResolvedValue({
+        tools: [
+          { name: 'tool1', description: 'Tool 1 of client2', inputSchema: { type: 'object' } },
+        ],
+      });
+    });
+
+    it('should keep the tool of the first server and report the conflict by default', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await handleListToolsRequest(request, connectedClients, serverConfigs);
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(['tool1']);
+      expect(result._meta).toEqual({
+        [TOOL_CONFLICTS_META_KEY]: [{ tool: 'tool1', servers: ['client1', 'client2'] }],
+      });
+      expect(clientMaps.getClientForTool('tool1')).toBe(mockClient1);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Tool name conflicts resolved by first-wins: tool1 (client1, client2)'
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should prefix conflicting tools and route them to their server', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await handleListToolsRequest(
+        request,
+        connectedClients,
+        serverConfigs,
+        undefined,
+        undefined,
+        undefined,
+        { toolConflictPolicy: 'prefix-on-conflict' }
+      );
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(['client1__tool1', 'client2__tool1']);
+      expect(clientMaps.getClientForTool('client2__tool1')).toBe(mockClient2);
+      expect(mockClient2.client.toolMappings).toEqual({ client2__tool1: 'tool1' });
+    });
+
+    it('should leave every conflicting tool out with the error policy', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(mockClient1.client.request).mockResolvedValue({
+        tools: [
+          { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
+          { name: 'tool3', description: 'Tool 3', inputSchema: { type: 'object' } },
+        ],
+      });
+
+      const result = await handleListToolsRequest(
+        request,
+        connectedClients,
+        serverConfigs,
+        undefined,
+        undefined,
+        undefined,
+        { toolConflictPolicy: 'error' }
+      );
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(['tool3']);
+      expect(result._meta).toEqual({
+        [TOOL_CONFLICTS_META_KEY]: [{ tool: 'tool1', servers: ['client1', 'client2'] }],
+      });
+      expect(clientMaps.getClientForTool('tool1')).toBeUndefined();
+      expect(clientMaps.getClientForTool('tool3')).toBe(mockClient1);
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Tool name conflicts, the conflicting tools are left out: tool1 (client1, client2)'
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('should resolve conflicts in config order whatever order the backends connected in', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await handleListToolsRequest(request, [mockClient2, mockClient1], serverConfigs);
+
+      expect(clientMaps.getClientForTool('tool1')).toBe(mockClient1);
+    });
+
+    it('should namespace tools so that they do not conflict', async () => {
+      serverConfigs.client2 = { command: 'test-command-2', toolNamespace: { prefix: 'two' } };
+
+      const result = await handleListToolsRequest(
+        request,
+        connectedClients,
+        serverConfigs,
+        undefined,
+        undefined,
+        undefined,
+        { toolNamespace: 'server', toolConflictPolicy: 'error' }
+      );
+
+      expect(result.tools.map((tool) => tool.name)).toEqual(['client1__tool1', 'two__tool1']);
+      expect(result._meta).toBeUndefined();
+      expect(clientMaps.getClientForTool('two__tool1')).toBe(mockClient2);
+    });
+  });
 });
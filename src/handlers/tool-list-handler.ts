@@ -1,13 +1,29 @@
 import { ConnectedClient } from '../client.js';
 import { toolService } from '../services/tool-service.js';
+import { toolCatalogService } from '../services/tool-catalog-service.js';
 import { customToolService } from '../services/custom-tool-service.js';
 import { clientMaps } from '../mappers/client-maps.js';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { ServerConfigs } from '../config.js';
+import { Config, ServerConfigs } from '../config.js';
 import { resolveTimeoutOptions } from '../utils/timeout-utils.js';
+import { buildSkippedMeta, fanOut, resolveListDeadline } from '../utils/fan-out-utils.js';
+import {
+  describeToolConflicts,
+  resolveToolConflicts,
+  ServerTools,
+  TOOL_CONFLICTS_META_KEY,
+} from '../utils/tool-conflict-utils.js';
 
 /**
- * Handles a request to list tools from all connected clients
+ * Handles a request to list tools from all connected clients.
+ * Backend tools come from the tool catalog; only backends whose cached tools are
+ * missing or expired are asked again; one that does not answer keeps its last
+ * cached tools and is reported as skipped. Also rebuilds the tool routing table.
+ * Tool names exposed by more than one backend are resolved by the conflict
+ * policy, in the order of the backends in `serverConfigs`, and reported under
+ * `_meta`; the `error` policy leaves every conflicting tool out.
+ * @param cacheTtlSec How long cached tools are used, in seconds; undefined keeps them until invalidated
+ * @param namingConfig How backend tools are namespaced and name conflicts resolved
  */
 export async function handleListToolsRequest(
   request: {
@@ -40,44 +56,84 @@ export async function handleListToolsRequest(
       }
     >;
   },
-  globalTimeoutSec?: number
-): Promise<{ tools: Tool[] }> {
+  globalTimeoutSec?: number,
+  cacheTtlSec?: number,
+  namingConfig: Pick<Config, 'toolNamespace' | 'toolConflictPolicy'> = {}
+): Promise<{ tools: Tool[]; _meta?: { [key: string]: unknown } }> {
   const exposedTools: Tool[] = [];
   const allTools: (Tool & { serverName: string })[] = [];
 
-  // Clear the existing tool map
-  clientMaps.clearToolMap();
+  // Fetch the tools of backends whose cached tools are missing or expired, all at once
+  const ttlMs = cacheTtlSec === undefined ? undefined : cacheTtlSec * 1000;
+  const { skipped } = await fanOut(
+    connectedClients.filter(
+      (connectedClient) => !toolCatalogService.isFresh(connectedClient, ttlMs)
+    ),
+    (connectedClient) =>
+      toolCatalogService.load(connectedClient, () =>
+        toolService.fetchToolsFromClient(
+          connectedClient,
+          request.params?._meta,
+          // Resolve timeout options: per-server overrides global
+          resolveTimeoutOptions(globalTimeoutSec, serverConfigs[connectedClient.name]?.timeout),
+          serverConfigs[connectedClient.name]
+        )
+      ),
+    (connectedClient) =>
+      resolveListDeadline(globalTimeoutSec, serverConfigs[connectedClient.name]?.timeout),
+    'tools'
+  );
 
-  // First, collect tools from all connected MCP servers
-  for (const connectedClient of connectedClients) {
-    try {
-      // Get server config for tool filtering
-      const serverConfig = serverConfigs[connectedClient.name];
+  // Nothing below awaits, so the routing table is built and swapped in before
+  // any tool call can observe it
+  const serverTools: ServerTools<ConnectedClient>[] = [];
 
-      // Resolve timeout options: per-server overrides global
-      const timeoutOptions = resolveTimeoutOptions(globalTimeoutSec, serverConfig?.timeout);
+  // Conflicts are resolved in config order, not in the order the backends connected
+  const configOrder = Object.keys(serverConfigs);
+  const rank = ({ name }: ConnectedClient) =>
+    configOrder.includes(name) ? configOrder.indexOf(name) : configOrder.length;
+  const orderedClients = [...connectedClients].sort((a, b) => rank(a) - rank(b));
 
-      // Fetch tools from the client
-      const clientAllTools = await toolService.fetchToolsFromClient(
-        connectedClient,
-        serverConfig,
-        request.params?._meta,
-        timeoutOptions
+  for (const connectedClient of orderedClients) {
+    // A backend whose refetch was skipped keeps its last cached tools, if any
+    const clientAllTools = toolCatalogService.getTools(connectedClient);
+    if (!clientAllTools) {
+      continue;
+    }
+
+    serverTools.push({
+      client: connectedClient,
+      tools: toolService.exposeTools(
+        clientAllTools,
+        connectedClient.name,
+        serverConfigs[connectedClient.name],
+        namingConfig.toolNamespace
+      ),
+    });
+
+    if (clientAllTools.length > 0) {
+      allTools.push(
+        ...clientAllTools.map((tool) => ({ ...tool, serverName: connectedClient.name }))
       );
+    }
+  }
 
-      const filteredTools = toolService.filterTools(clientAllTools, serverConfig);
-      const mappedTools = toolService.applyToolNameMapping(filteredTools, serverConfig);
+  const policy = namingConfig.toolConflictPolicy ?? 'first-wins';
+  const resolved = resolveToolConflicts(serverTools, policy);
+  const routes = new Map<string, ConnectedClient>();
+  for (const { client, tools } of resolved.serverTools) {
+    toolService.addToolRoutes(routes, tools, client);
+    exposedTools.push(...tools.map(({ tool }) => tool));
+  }
 
-      exposedTools.push(...mappedTools);
+  clientMaps.replaceToolMap(routes);
 
-      if (clientAllTools.length > 0) {
-        allTools.push(
-          ...clientAllTools.map((tool) => ({ ...tool, serverName: connectedClient.name }))
-        );
-      }
-    } catch (error) {
-      console.error(`Error fetching tools from client ${connectedClient.name}:`, error);
-      // Continue with other clients even if one fails
+  if (resolved.conflicts.length > 0) {
+    const description = describeToolConflicts(resolved.conflicts);
+    if (policy === 'error') {
+      console.error(`Tool name conflicts, the conflicting tools are left out: ${description}`);
+    } else {
+      console.warn(`Tool name conflicts resolved by ${policy}: ${description}`);
     }
   }
 
@@ -93,5 +149,11 @@ export async function handleListToolsRequest(
     console.error('Error creating custom tools:', error);
   }
 
-  return { tools: exposedTools };
+  const meta = {
+    ...buildSkippedMeta(skipped)._meta,
+    ...(resolved.conflicts.length > 0 && { [TOOL_CONFLICTS_META_KEY]: resolved.conflicts }),
+  };
+  return Object.keys(meta).length > 0
+    ? { tools: exposedTools, _meta: meta }
+    : { tools: exposedTools };
 }
@@ -41,7 +41,7 @@ describe('ClientMaps', () => {
       clientMaps.mapToolToClient('tool1', mockClient1);
       clientMaps.mapToolToClient('tool2', mockClient2);
 
-      clientMaps.clearToolMap();
+      clientMaps.replaceToolMap(new Map());
 
       expect(clientMaps.getClientForTool('tool1')).toBeUndefined();
       expect(clientMaps.getClientForTool('tool2')).toBeUndefined();
@@ -94,6 +94,33 @@ describe('ClientMaps', () => {
       expect(clientMaps.getClientForResource('resource1:uri')).toBeUndefined();
       expect(clientMaps.getClientForResource('resource2:uri')).toBeUndefined();
     });
+
+    it('should keep the resource mappings of the given servers', () => {
+      clientMaps.mapResourceToClient('resource1:uri', mockClient1);
+      clientMaps.mapResourceToClient('resource2:uri', mockClient2);
+
+      clientMaps.clearResourceMap(['client2']);
+
+      expect(clientMaps.getClientForResource('resource1:uri')).toBeUndefined();
+      expect(clientMaps.getClientForResource('resource2:uri')).toBe(mockClient2);
+    });
+  });
+
+  describe('Resource template mappings', () => {
+    it('should map a resource template to a client', () => {
+      clientMaps.mapResourceTemplateToClient('file:///{path}', mockClient1);
+      expect(clientMaps.getClientForResourceTemplate('file:///{path}')).toBe(mockClient1);
+    });
+
+    it('should clear resource template mappings', () => {
+      clientMaps.mapResourceTemplateToClient('file:///{path}', mockClient1);
+      clientMaps.mapResourceTemplateToClient('issue://{id}', mockClient2);
+
+      clientMaps.clearResourceTemplateMap();
+
+      expect(clientMaps.getClientForResourceTemplate('file:///{path}')).toBeUndefined();
+      expect(clientMaps.getClientForResourceTemplate('issue://{id}')).toBeUndefined();
+    });
   });
 
   describe('Prompt mappings', () => {
@@ -111,6 +138,16 @@ describe('ClientMaps', () => {
       expect(clientMaps.getClientForPrompt('prompt1')).toBeUndefined();
       expect(clientMaps.getClientForPrompt('prompt2')).toBeUndefined();
     });
+
+    it('should keep the prompt mappings of the given servers', () => {
+      clientMaps.mapPromptToClient('prompt1', mockClient1);
+      clientMaps.mapPromptToClient('prompt2', mockClient2);
+
+      clientMaps.clearPromptMap(['client1']);
+
+      expect(clientMaps.getClientForPrompt('prompt1')).toBe(mockClient1);
+      expect(clientMaps.getClientForPrompt('prompt2')).toBeUndefined();
+    });
   });
 
   describe('Connected clients', () => {
@@ -137,6 +174,7 @@ describe('ClientMaps', () => {
       clientMaps.mapToolToClient('tool1', mockClient1);
       clientMaps.mapCustomToolToClient('customTool:client1:tool1', mockClient1);
       clientMaps.mapResourceToClient('resource:uri', mockClient1);
+      clientMaps.mapResourceTemplateToClient('file:///{path}', mockClient1);
       clientMaps.mapPromptToClient('prompt1', mockClient1);
 
       // Create a new client with same name
@@ -161,7 +199,41 @@ describe('ClientMaps', () => {
       expect(clientMaps.getClientForTool('tool1')).toBe(newClient);
       expect(clientMaps.getClientForCustomTool('customTool:client1:tool1')).toBe(newClient);
       expect(clientMaps.getClientForResource('resource:uri')).toBe(newClient);
+      expect(clientMaps.getClientForResourceTemplate('file:///{path}')).toBe(newClient);
       expect(clientMaps.getClientForPrompt('prompt1')).toBe(newClient);
     });
+
+    it('should remove a connected client and its mappings', () => {
+      clientMaps.addConnectedClient(mockClient1);
+      clientMaps.addConnectedClient(mockClient2);
+
+      clientMaps.mapToolToClient('tool1', mockClient1);
+      clientMaps.mapToolToClient('tool2', mockClient2);
+      clientMaps.mapCustomToolToClient('customTool:client1:tool1', mockClient1);
+      clientMaps.mapResourceToClient('resource:uri', mockClient1);
+      clientMaps.mapResourceTemplateToClient('file:///{path}', mockClient1);
+      clientMaps.mapPromptToClient('prompt1', mockClient1);
+
+      clientMaps.removeConnectedClient('client1');
+
+      expect(clientMaps.getClientByName('client1')).toBeUndefined();
+      expect(clientMaps.getAllClients().size).toBe(1);
+      expect(clientMaps.getClientForTool('tool1')).toBeUndefined();
+      expect(clientMaps.getClientForTool('tool2')).toBe(mockClient2);
+      expect(clientMaps.getClientForCustomTool('customTool:client1:tool1')).toBeUndefined();
+      expect(clientMaps.getClientForResource('resource:uri')).toBeUndefined();
+      expect(clientMaps.getClientForResourceTemplate('file:///{path}')).toBeUndefined();
+      expect(clientMaps.getClientForPrompt('prompt1')).toBeUndefined();
+    });
+
+    it('should count the mappings of a server', () => {
+      clientMaps.mapToolToClient('tool1', mockClient1);
+      clientMaps.mapToolToClient('tool2', mockClient1);
+      clientMaps.mapToolToClient('tool3', mockClient2);
+      clientMaps.mapResourceToClient('resource:uri', mockClient1);
+
+      expect(clientMaps.countMappings('client1')).toEqual({ tools: 2, resources: 1, prompts: 0 });
+      expect(clientMaps.countMappings('unknown')).toEqual({ tools: 0, resources: 0, prompts: 0 });
+    });
   });
 });
@@ -6,6 +6,7 @@ import { ConnectedClient } from '../client.js';
 export class ClientMaps {
   private toolToClientMap = new Map<string, ConnectedClient>();
   private resourceToClientMap = new Map<string, ConnectedClient>();
+  private resourceTemplateToClientMap = new Map<string, ConnectedClient>();
   private promptToClientMap = new Map<string, ConnectedClient>();
   private customToolToClientMap = new Map<string, ConnectedClient>();
   private connectedClients = new Set<ConnectedClient>();
@@ -24,6 +25,13 @@ export class ClientMaps {
     return this.resourceToClientMap.get(uri);
   }
 
+  /**
+   * Gets the client associated with a specific resource template
+   */
+  getClientForResourceTemplate(uriTemplate: string): ConnectedClient | undefined {
+    return this.resourceTemplateToClientMap.get(uriTemplate);
+  }
+
   /**
    * Gets the client associated with a specific prompt
    */
@@ -64,6 +72,13 @@ export class ClientMaps {
     this.resourceToClientMap.set(resourceUri, client);
   }
 
+  /**
+   * Maps a resource template to a client
+   */
+  mapResourceTemplateToClient(uriTemplate: string, client: ConnectedClient): void {
+    this.resourceTemplateToClientMap.set(uriTemplate, client);
+  }
+
   /**
    * Maps a prompt to a client
    */
@@ -72,10 +87,12 @@ export class ClientMaps {
   }
 
   /**
-   * Clears the tool to client map
+   * Replaces the tool to client map with a fully built one in a single step,
+   * so that tool calls never see a partially built map
+   * @param routes Clients keyed by exposed tool name
    */
-  clearToolMap(): void {
-    this.toolToClientMap.clear();
+  replaceToolMap(routes: Map<string, ConnectedClient>): void {
+    this.toolToClientMap = routes;
   }
 
   /**
@@ -87,16 +104,37 @@ export class ClientMaps {
 
   /**
    * Clears the resource to client map
+   * @param keepServers Servers whose entries are kept, e.g. because they did not answer a relisting
    */
-  clearResourceMap(): void {
-    this.resourceToClientMap.clear();
+  clearResourceMap(keepServers: string[] = []): void {
+    this.clearMapExcept(this.resourceToClientMap, keepServers);
+  }
+
+  /**
+   * Clears the resource template to client map
+   * @param keepServers Servers whose entries are kept, e.g. because they did not answer a relisting
+   */
+  clearResourceTemplateMap(keepServers: string[] = []): void {
+    this.clearMapExcept(this.resourceTemplateToClientMap, keepServers);
   }
 
   /**
    * Clears the prompt to client map
+   * @param keepServers Servers whose entries are kept, e.g. because they did not answer a relisting
+   */
+  clearPromptMap(keepServers: string[] = []): void {
+    this.clearMapExcept(this.promptToClientMap, keepServers);
+  }
+
+  /**
+   * Removes the entries of a map except those pointing to the given servers
    */
-  clearPromptMap(): void {
-    this.promptToClientMap.clear();
+  private clearMapExcept(map: Map<string, ConnectedClient>, keepServers: string[]): void {
+    map.forEach((client, key) => {
+      if (!keepServers.includes(client.name)) {
+        map.delete(key);
+      }
+    });
   }
 
   /**
@@ -120,6 +158,44 @@ export class ClientMaps {
     return Array.from(this.connectedClients).find((client) => client.name === serverName);
   }
 
+  /**
+   * Counts the tools, resources and prompts currently routed to a server
+   */
+  countMappings(serverName: string): { tools: number; resources: number; prompts: number } {
+    const count = (map: Map<string, ConnectedClient>) =>
+      Array.from(map.values()).filter((client) => client.name === serverName).length;
+
+    return {
+      tools: count(this.toolToClientMap),
+      resources: count(this.resourceToClientMap),
+      prompts: count(this.promptToClientMap),
+    };
+  }
+
+  /**
+   * Removes a connected client and every mapping that points to it
+   */
+  removeConnectedClient(serverName: string): void {
+    const client = this.getClientByName(serverName);
+    if (client) {
+      this.connectedClients.delete(client);
+    }
+
+    for (const map of [
+      this.toolToClientMap,
+      this.customToolToClientMap,
+      this.resourceToClientMap,
+      this.resourceTemplateToClientMap,
+      this.promptToClientMap,
+    ]) {
+      map.forEach((mappedClient, key) => {
+        if (mappedClient.name === serverName) {
+          map.delete(key);
+        }
+      });
+    }
+  }
+
   /**
    * Updates a connected client
    */
@@ -155,6 +231,13 @@ export class ClientMaps {
       }
     });
 
+    // For resource template map
+    this.resourceTemplateToClientMap.forEach((client, uriTemplate) => {
+      if (client.name === serverName) {
+        this.resourceTemplateToClientMap.set(uriTemplate, newClient);
+      }
+    });
+
     // For prompt map
     this.promptToClientMap.forEach((client, promptName) => {
       if (client.name === serverName) {
@@ -1,32 +1,190 @@
-import { createClients, getConnectedClient } from './client.js';
-import { loadConfig } from './config.js';
+import { isDeepStrictEqual } from 'node:util';
+import { createClients, getConnectedClient, restartClient, stopClient } from './client.js';
+import { Config, loadConfig, watchConfig } from './config.js';
 import {
   handleListToolsRequest,
   handleToolCall,
+  handleCompleteRequest,
   handleGetPromptRequest,
   handleListPromptsRequest,
   registerListResourcesHandler,
   registerListResourceTemplatesHandler,
   registerReadResourceHandler,
+  registerSubscribeResourceHandler,
+  registerUnsubscribeResourceHandler,
+  registerSetLevelHandler,
+  supportsCompletions,
 } from './handlers/index.js';
 import { setupEventSource, createMCPServer, createCleanupFunction } from './core/index.js';
+import { sessionRegistry } from './core/session-registry.js';
+import { routeTable } from './core/route-table.js';
+import { notifyRootsListChanged } from './core/client-request-forwarding.js';
+import { clientMaps } from './mappers/client-maps.js';
+import { logLevelService, supportsLogging } from './services/log-level-service.js';
+import { toolCatalogService } from './services/tool-catalog-service.js';
+import { resourceSubscriptionService } from './services/resource-subscription-service.js';
+import { diffServerConfigs, isEmptyDiff, ServerConfigDiff } from './utils/config-diff.js';
+import { describeToolConflicts } from './utils/tool-conflict-utils.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ListToolsRequest,
   ListToolsRequestSchema,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
+  RootsListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-let cachedConfig: Awaited<ReturnType<typeof loadConfig>> | null = null;
+let cachedConfig: Config | null = null;
+let stopWatchingConfig: (() => void) | null = null;
+let pendingReload: Promise<unknown> = Promise.resolve();
+let stopRefreshingRoutes: (() => void) | null = null;
+
+/**
+ * Returns the config currently in effect.
+ * This changes when the config file is reloaded, so read it per request instead of caching it.
+ */
+export const getCurrentConfig = (): Config => {
+  if (!cachedConfig) {
+    throw new Error('Config not loaded. Call initClients() first.');
+  }
+  return cachedConfig;
+};
+
+/**
+ * Lists the tools of all backends with the config currently in effect.
+ * This also rebuilds the tool routing table.
+ */
+const listTools = (request: ListToolsRequest) => {
+  const config = getCurrentConfig();
+  return handleListToolsRequest(
+    request,
+    getConnectedClient(),
+    config.mcpServers || {},
+    {
+      mcpServers: config.mcpServers || {},
+      tools: config.tools,
+    },
+    config.timeout,
+    config.toolCacheTtl,
+    config
+  );
+};
+
+/**
+ * Connects, disconnects and reconnects backends according to a config diff
+ */
+const applyServerConfigDiff = async (diff: ServerConfigDiff, config: Config) => {
+  await Promise.all(diff.removed.map((name) => stopClient(name)));
+
+  await Promise.all(
+    diff.restarted.map((name) =>
+      clientMaps.getClientByName(name)
+        ? restartClient(name, config.mcpServers[name], config)
+        : createClients({ [name]: config.mcpServers[name] }, config)
+    )
+  );
+
+  await createClients(
+    Object.fromEntries(diff.added.map((name) => [name, config.mcpServers[name]])),
+    config
+  );
+};
+
+/**
+ * Rebuilds the routing tables with a config
+ * @throws When tool names conflict and the config's toolConflictPolicy is `error`
+ */
+const buildRoutes = async (config: Config) => {
+  const conflicts = await routeTable.build(config);
+  if (config.toolConflictPolicy === 'error' && conflicts.length > 0) {
+    throw new Error(`Tool name conflicts: ${describeToolConflicts(conflicts)}`);
+  }
+};
+
+/**
+ * Reloads the config file and applies the changes to the running hub.
+ * Only affected backends are started, stopped or restarted, and every session
+ * is told that its lists have changed. An invalid config file is ignored, and a
+ * config whose tool names conflict under the `error` policy is rolled back.
+ * @returns The applied diff, or null if the new config was rejected
+ */
+export const reloadConfig = async (): Promise<ServerConfigDiff | null> => {
+  const reload = pendingReload.then(async () => {
+    const previousConfig = getCurrentConfig();
+
+    let nextConfig: Config;
+    try {
+      nextConfig = await loadConfig({ strict: true });
+    } catch (error) {
+      console.error('Config reload failed, keeping the current config:', error);
+      return null;
+    }
+
+    const diff = diffServerConfigs(
+      previousConfig.mcpServers,
+      nextConfig.mcpServers,
+      previousConfig,
+      nextConfig
+    );
+    cachedConfig = nextConfig;
+
+    if (isEmptyDiff(diff) && isDeepStrictEqual(previousConfig, nextConfig)) {
+      return diff;
+    }
+
+    console.log(
+      `Config reloaded: added=[${diff.added}] removed=[${diff.removed}] ` +
+        `restarted=[${diff.restarted}] updated=[${diff.updated}]`
+    );
+    await applyServerConfigDiff(diff, nextConfig);
+    // Cached tools carry the overrides of exposedTools, which may have changed
+    diff.updated.forEach((name) => toolCatalogService.invalidate(name));
+    // Tool routes depend on exposedTools and custom tools, which may have changed
+    try {
+      await buildRoutes(nextConfig);
+    } catch (error) {
+      console.error('Config reload rejected, restoring the previous config:', error);
+      cachedConfig = previousConfig;
+      const rollback = diffServerConfigs(
+        nextConfig.mcpServers,
+        previousConfig.mcpServers,
+        nextConfig,
+        previousConfig
+      );
+      await applyServerConfigDiff(rollback, previousConfig);
+      rollback.updated.forEach((name) => toolCatalogService.invalidate(name));
+      void routeTable.refresh();
+      return null;
+    }
+    await sessionRegistry.notifyListChanged();
+
+    return diff;
+  });
+
+  pendingReload = reload.catch(() => {});
+  return reload;
+};
 
 /**
  * Initializes backend client connections by loading config and connecting to servers.
  * Call this once at startup, then use createProxyServer() for each session.
+ * The config file is watched for changes unless MCP_PROXY_WATCH_CONFIG is "0".
  */
 export const initClients = async () => {
   setupEventSource();
   cachedConfig = await loadConfig();
-  await createClients(cachedConfig.mcpServers);
+  stopRefreshingRoutes ??= routeTable.watch(getCurrentConfig);
+  await createClients(cachedConfig.mcpServers, cachedConfig);
+  // Calls are routed from the start, without waiting for a client to list first
+  await buildRoutes(cachedConfig);
+
+  if (process.env.MCP_PROXY_WATCH_CONFIG !== '0' && !stopWatchingConfig) {
+    stopWatchingConfig = watchConfig(() => {
+      reloadConfig().catch((error) => console.error('Error applying config reload:', error));
+    });
+  }
+
   return cachedConfig;
 };
 
@@ -36,51 +194,75 @@ export const initClients = async () => {
  * Each call creates a fresh Server — safe to use per HTTP session.
  */
 export const createProxyServer = () => {
-  if (!cachedConfig) {
-    throw new Error('Config not loaded. Call initClients() first.');
-  }
-  const config = cachedConfig;
+  // Fail fast if initClients() has not been called yet
+  getCurrentConfig();
 
-  const server = createMCPServer();
+  // Sessions advertise completion and logging when a backend connected at the time offers them
+  const connectedClients = getConnectedClient();
+  const completions = connectedClients.some(supportsCompletions);
+  const logging = connectedClients.some(supportsLogging);
+  const server = createMCPServer({ completions, logging });
 
-  server.setRequestHandler(ListToolsRequestSchema, (request) => {
-    const connectedClients = getConnectedClient();
-    return handleListToolsRequest(
-      request,
-      connectedClients,
-      config.mcpServers || {},
-      {
-        mcpServers: config.mcpServers || {},
-        tools: config.tools,
-      },
-      config.timeout
-    );
-  });
+  const session = sessionRegistry.add(server);
+  server.onclose = () => {
+    sessionRegistry.remove(session.id);
+    void resourceSubscriptionService.unsubscribeAll(session.id);
+    void logLevelService.removeSession(session.id);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, (request) => listTools(request));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    return await handleToolCall(request, config);
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    return await handleToolCall(request, getCurrentConfig(), extra);
   });
 
-  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-    return handleGetPromptRequest(request);
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    return handleGetPromptRequest(request, getCurrentConfig(), extra);
   });
 
   server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
     const connectedClients = getConnectedClient();
-    return handleListPromptsRequest(request, connectedClients);
+    const config = getCurrentConfig();
+    return handleListPromptsRequest(request, connectedClients, config.mcpServers, config.timeout);
   });
 
-  registerListResourcesHandler(server);
+  registerListResourcesHandler(server, getCurrentConfig);
   registerReadResourceHandler(server);
-  registerListResourceTemplatesHandler(server);
+  registerListResourceTemplatesHandler(server, getCurrentConfig);
+  registerSubscribeResourceHandler(server, session.id);
+  registerUnsubscribeResourceHandler(server, session.id);
+
+  if (completions) {
+    server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+      return handleCompleteRequest(request, extra);
+    });
+  }
+
+  if (logging) {
+    registerSetLevelHandler(server, session.id);
+  }
+
+  server.setNotificationHandler(RootsListChangedNotificationSchema, () =>
+    notifyRootsListChanged(getCurrentConfig().mcpServers)
+  );
 
   return server;
 };
 
 /**
  * Returns a cleanup function for backend client connections.
+ * Also stops watching the config file.
  */
-export const createBackendCleanup = createCleanupFunction;
+export const createBackendCleanup = () => {
+  const cleanup = createCleanupFunction();
+  return async () => {
+    stopWatchingConfig?.();
+    stopWatchingConfig = null;
+    stopRefreshingRoutes?.();
+    stopRefreshingRoutes = null;
+    await cleanup();
+  };
+};
 
 /**
  * Creates an MCP proxy server AND initializes backend connections.
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ClientSupervisor,
+  DEFAULT_HEALTH_CHECK_OPTIONS,
+  HealthCheckOptions,
+  resolveHealthCheckOptions,
+} from './client-supervisor.js';
+import { serverStatusService } from './server-status-service.js';
+
+describe('ClientSupervisor', () => {
+  let client: Client;
+  let reconnect: ReturnType<typeof vi.fn>;
+  const options: HealthCheckOptions = {
+    enable: true,
+    intervalMs: 1000,
+    timeoutMs: 500,
+    failureThreshold: 2,
+    reconnect: {
+      enable: true,
+      maxAttempts: 3,
+      initialDelayMs: 100,
+      maxDelayMs: 1000,
+      factor: 2,
+      jitter: 0,
+    },
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    serverStatusService.remove('server1');
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    vi.spyOn(client, 'ping').mockResolvedValue({});
+    vi.spyOn(client, 'close').mockResolvedValue();
+    reconnect = vi.fn().mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should mark the server ready when started', () => {
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    expect(serverStatusService.getStatus('server1')?.state).toBe('ready');
+  });
+
+  it('should ping the server periodically', async () => {
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    await vi.advanceTimersByTimeAsync(2500);
+
+    expect(client.ping).toHaveBeenCalledTimes(2);
+    expect(client.ping).toHaveBeenCalledWith({ timeout: 500 });
+  });
+
+  it('should not ping when health checks are disabled', async () => {
+    new ClientSupervisor('server1', client, { ...options, enable: false }, reconnect).start();
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(client.ping).not.toHaveBeenCalled();
+  });
+
+  it('should mark the server degraded after a failed ping and recover', async () => {
+    vi.mocked(client.ping).mockRejectedValueOnce(new Error('timeout'));
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(serverStatusService.getStatus('server1')?.state).toBe('degraded');
+    expect(serverStatusService.getStatus('server1')?.lastError).toBe('timeout');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(serverStatusService.getStatus('server1')?.state).toBe('ready');
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect after reaching the failure threshold', async () => {
+    vi.mocked(client.ping).mockRejectedValue(new Error('timeout'));
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(client.close).toHaveBeenCalled();
+    expect(reconnect).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reconnect with backoff when the connection closes', async () => {
+    reconnect.mockResolvedValueOnce(false).mockRejectedValueOnce(new Error('refused'));
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    client.onclose?.();
+    expect(serverStatusService.getStatus('server1')?.state).toBe('degraded');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(reconnect).toHaveBeenCalledTimes(2);
+    expect(serverStatusService.getStatus('server1')?.lastError).toBe('refused');
+    await vi.advanceTimersByTimeAsync(400);
+    expect(reconnect).toHaveBeenCalledTimes(3);
+  });
+
+  it('should mark the server failed after the last attempt', async () => {
+    reconnect.mockResolvedValue(false);
+    new ClientSupervisor('server1', client, options, reconnect).start();
+
+    client.onclose?.();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    expect(serverStatusService.getStatus('server1')?.state).toBe('failed');
+  });
+
+  it('should mark the server failed immediately when reconnect is disabled', () => {
+    const noReconnect = { ...options, reconnect: { ...options.reconnect, enable: false } };
+    new ClientSupervisor('server1', client, noReconnect, reconnect).start();
+
+    client.onclose?.();
+
+    expect(serverStatusService.getStatus('server1')?.state).toBe('failed');
+  });
+
+  it('should not reconnect after being cancelled', async () => {
+    const supervisor = new ClientSupervisor('server1', client, options, reconnect);
+    supervisor.start();
+
+    supervisor.cancel();
+    client.onclose?.();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(supervisor.isCancelled()).toBe(true);
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(client.ping).not.toHaveBeenCalled();
+  });
+
+  it('should stop a pending reconnection when cancelled', async () => {
+    const supervisor = new ClientSupervisor('server1', client, options, reconnect);
+    supervisor.start();
+
+    client.onclose?.();
+    supervisor.cancel();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+
+  describe('resolveHealthCheckOptions', () => {
+    it('should return the defaults when nothing is configured', () => {
+      expect(resolveHealthCheckOptions()).toEqual(DEFAULT_HEALTH_CHECK_OPTIONS);
+    });
+
+    it('should let per-server values override global values', () => {
+      const resolved = resolveHealthCheckOptions(
+        { intervalMs: 5000, reconnect: { maxAttempts: 5, factor: 3 } },
+        { intervalMs: 1000, reconnect: { maxAttempts: 0 } }
+      );
+
+      expect(resolved.intervalMs).toBe(1000);
+      expect(resolved.timeoutMs).toBe(DEFAULT_HEALTH_CHECK_OPTIONS.timeoutMs);
+      expect(resolved.reconnect).toEqual({
+        ...DEFAULT_HEALTH_CHECK_OPTIONS.reconnect,
+        maxAttempts: 0,
+        factor: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { HealthCheckConfig } from '../config.js';
+import { computeBackoffDelay, sleepUnref } from '../utils/backoff-utils.js';
+import { serverStatusService } from './server-status-service.js';
+
+export type HealthCheckOptions = {
+  enable: boolean;
+  intervalMs: number;
+  timeoutMs: number;
+  failureThreshold: number;
+  reconnect: {
+    enable: boolean;
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    factor: number;
+    jitter: number;
+  };
+};
+
+export const DEFAULT_HEALTH_CHECK_OPTIONS: HealthCheckOptions = {
+  enable: true,
+  intervalMs: 30_000,
+  timeoutMs: 10_000,
+  failureThreshold: 2,
+  reconnect: {
+    enable: true,
+    maxAttempts: 10,
+    initialDelayMs: 1000,
+    maxDelayMs: 60_000,
+    factor: 2,
+    jitter: 0.2,
+  },
+};
+
+/**
+ * Resolves health check options: per-server values override global ones,
+ * which override the defaults.
+ */
+export function resolveHealthCheckOptions(
+  globalConfig?: HealthCheckConfig,
+  serverConfig?: HealthCheckConfig
+): HealthCheckOptions {
+  return {
+    ...DEFAULT_HEALTH_CHECK_OPTIONS,
+    ...globalConfig,
+    ...serverConfig,
+    reconnect: {
+      ...DEFAULT_HEALTH_CHECK_OPTIONS.reconnect,
+      ...globalConfig?.reconnect,
+      ...serverConfig?.reconnect,
+    },
+  };
+}
+
+/**
+ * Watches a single backend connection.
+ *
+ * The supervisor marks the server in serverStatusService, pings it periodically
+ * and, when the transport closes or too many pings fail, re-establishes the
+ * connection with exponential backoff. Each connection gets its own supervisor;
+ * a successful reconnect hands over to the supervisor of the new connection.
+ */
+export class ClientSupervisor {
+  private timer: NodeJS.Timeout | undefined;
+  private consecutiveFailures = 0;
+  private pinging = false;
+  private monitoring = false;
+  private cancelled = false;
+
+  /**
+   * @param serverName The name of the supervised server
+   * @param client The connected client
+   * @param options Resolved health check options
+   * @param reconnect Establishes a replacement connection; resolves to true on success
+   */
+  constructor(
+    private readonly serverName: string,
+    private readonly client: Client,
+    private readonly options: HealthCheckOptions,
+    private readonly reconnect: () => Promise<boolean>
+  ) {}
+
+  /**
+   * Starts watching the connection
+   */
+  start(): void {
+    this.monitoring = true;
+    serverStatusService.markReady(this.serverName);
+
+    this.client.onclose = () => {
+      this.handleConnectionLost(new Error('Connection closed'));
+    };
+    this.client.onerror = (error) => {
+      serverStatusService.recordError(this.serverName, error);
+    };
+
+    if (this.options.enable) {
+      this.timer = setInterval(() => {
+        void this.checkHealth();
+      }, this.options.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stops watching and prevents any pending reconnection.
+   * Call this before intentionally closing the connection.
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.stopMonitoring();
+  }
+
+  /**
+   * Whether the connection was intentionally closed
+   */
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  private stopMonitoring(): void {
+    this.monitoring = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async checkHealth(): Promise<void> {
+    if (this.pinging || !this.monitoring) return;
+
+    this.pinging = true;
+    try {
+      await this.client.ping({ timeout: this.options.timeoutMs });
+      this.consecutiveFailures = 0;
+      if (this.monitoring) {
+        serverStatusService.markReady(this.serverName);
+      }
+    } catch (error) {
+      this.consecutiveFailures++;
+      console.warn(
+        `Health check failed for ${this.serverName} ` +
+          `(${this.consecutiveFailures}/${this.options.failureThreshold}):`,
+        error
+      );
+      if (!this.monitoring) return;
+
+      if (this.consecutiveFailures >= this.options.failureThreshold) {
+        this.handleConnectionLost(error);
+      } else {
+        serverStatusService.markDegraded(this.serverName, error);
+      }
+    } finally {
+      this.pinging = false;
+    }
+  }
+
+  private handleConnectionLost(error: unknown): void {
+    if (!this.monitoring) return;
+    this.stopMonitoring();
+
+    console.error(`Lost connection to server ${this.serverName}:`, error);
+    // Release the dead connection; its onclose no longer has any effect
+    this.client.close().catch(() => {});
+
+    if (!this.options.reconnect.enable) {
+      serverStatusService.markFailed(this.serverName, error);
+      return;
+    }
+
+    serverStatusService.markDegraded(this.serverName, error);
+    void this.reconnectWithBackoff();
+  }
+
+  private async reconnectWithBackoff(): Promise<void> {
+    const { maxAttempts } = this.options.reconnect;
+
+    for (let attempt = 0; maxAttempts === 0 || attempt < maxAttempts; attempt++) {
+      const delay = computeBackoffDelay(attempt, this.options.reconnect);
+      console.log(
+        `Reconnecting to ${this.serverName} in ${delay}ms ` +
+          `(${attempt + 1}/${maxAttempts === 0 ? '∞' : maxAttempts})`
+      );
+      await sleepUnref(delay);
+      if (this.cancelled) return;
+
+      serverStatusService.markConnecting(this.serverName, true);
+      try {
+        if (await this.reconnect()) {
+          return;
+        }
+      } catch (error) {
+        serverStatusService.recordError(this.serverName, error);
+      }
+      if (this.cancelled) return;
+      serverStatusService.markDegraded(this.serverName);
+    }
+
+    console.error(`Giving up reconnecting to ${this.serverName}`);
+    serverStatusService.markFailed(this.serverName);
+  }
+}
@@ -3,6 +3,7 @@ import { CustomToolService, ToolWithServerName } from './custom-tool-service.js'
 import { clientMaps } from '../mappers/client-maps.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { ConnectedClient } from '../client.js';
+import { toolCatalogService } from './tool-catalog-service.js';
 
 type ClientOptions = { name: string; version: string };
 
@@ -359,6 +360,30 @@ describe('CustomToolService', () => {
       consoleLogSpy.mockRestore();
     });
 
+    it('should reject subtool arguments that fail the inputSchema when enforced', async () => {
+      vi.mocked(clientMaps.getClientForCustomTool).mockReturnValueOnce(mockClient1);
+      await toolCatalogService.load(mockClient1, async () => [
+        {
+          name: 'tool1',
+          inputSchema: { type: 'object', properties: { param1: { type: 'number' } } },
+        },
+      ]);
+
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const result = await customToolService.handleCustomToolCall(
+        'customTool',
+        { server: 'server1', tool: 'tool1', args: { param1: 'value1' } },
+        undefined,
+        { server1: { command: 'test-command', validateArgs: 'enforce' } }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(mockClient1.client.request).not.toHaveBeenCalled();
+
+      consoleLogSpy.mockRestore();
+    });
+
     it('should forward resolved timeout options when globalTimeoutSec is set', async () => {
       vi.mocked(clientMaps.getClientForCustomTool).mockReturnValueOnce(mockClient1);
 
@@ -1,6 +1,10 @@
 import { ConnectedClient } from '../client.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { clientMaps } from '../mappers/client-maps.js';
+import { serverStatusService } from './server-status-service.js';
+import { metricsService } from './metrics-service.js';
+import { downstreamRequestService } from './downstream-request-service.js';
+import { toolService } from './tool-service.js';
 import { CompatibilityCallToolResultSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
 import {
   logCustomToolRequest,
@@ -10,6 +14,7 @@ import {
 import { EnvVarConfig, ServerConfig, ToolConfig } from '../config.js';
 import { expandEnvVars, unexpandEnvVars, combineEnvVars } from '../utils/env-var-utils.js';
 import { resolveTimeoutOptions } from '../utils/timeout-utils.js';
+import { buildUpstreamRequestOptions, DownstreamContext } from '../utils/request-options-utils.js';
 import { JsonObject } from '../types/json.js';
 
 // Custom client for handling custom tools
@@ -210,6 +215,7 @@ For example, to use the Edit tool from claude_code, your request would look like
 
   /**
    * Handles a custom tool call
+   * @param downstream The downstream request, whose progress and cancellation are passed through
    */
   public async handleCustomToolCall(
     customToolName: string,
@@ -217,7 +223,8 @@ For example, to use the Edit tool from claude_code, your request would look like
     meta?: { progressToken?: string | number },
     serverConfigs?: Record<string, ServerConfig>,
     globalEnvVars?: EnvVarConfig[],
-    globalTimeoutSec?: number
+    globalTimeoutSec?: number,
+    downstream?: DownstreamContext
   ) {
     if (!requestArgs) {
       throw new Error('Missing required parameters');
@@ -253,15 +260,34 @@ For example, to use the Edit tool from claude_code, your request would look like
 
       const serverConfig = serverConfigs?.[client.name];
 
-      // Resolve timeout options: per-server overrides global
-      const timeoutOptions = resolveTimeoutOptions(globalTimeoutSec, serverConfig?.timeout);
+      // Per-server timeout overrides global; progress and cancellation pass through
+      const requestOptions = buildUpstreamRequestOptions(
+        resolveTimeoutOptions(globalTimeoutSec, serverConfig?.timeout),
+        meta?.progressToken,
+        downstream
+      );
 
       // Combine global and server-specific environment variables
       const combinedEnvVars = combineEnvVars(globalEnvVars, serverConfig?.envVars);
 
+      // Validate the arguments against the subtool's inputSchema if configured
+      const argumentError = toolService.checkToolArguments(
+        tool,
+        tool,
+        toolArgs,
+        client,
+        serverConfig
+      );
+      if (argumentError) {
+        return argumentError;
+      }
+
+      // Apply the fixed and default arguments configured for the subtool
+      const callArgs = toolService.applyConfiguredArgs(tool, tool, toolArgs, serverConfig);
+
       // Expand environment variables in arguments if configured
       // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
-      const expandedArgs = expandEnvVars(toolArgs as JsonObject, combinedEnvVars);
+      const expandedArgs = expandEnvVars(callArgs as JsonObject, combinedEnvVars);
 
       // Prepare the tool call request
       const toolCallRequest = {
@@ -277,13 +303,14 @@ For example, to use the Edit tool from claude_code, your request would look like
       };
 
       // Call the actual tool on the target server
-      const result = await client.client.request(
-        toolCallRequest,
-        CompatibilityCallToolResultSchema,
-        timeoutOptions
+      const result = await downstreamRequestService.run(client.name, downstream, () =>
+        metricsService.observe({ server: client.name, method: 'tools/call', name: tool }, () =>
+          client.client.request(toolCallRequest, CompatibilityCallToolResultSchema, requestOptions)
+        )
       );
 
       logCustomToolResponse(result);
+      serverStatusService.recordSuccessfulCall(client.name);
 
       // Unexpand environment variables in response if configured
       // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
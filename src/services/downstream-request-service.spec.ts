@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DownstreamRequestService } from './downstream-request-service.js';
+
+const createDownstream = () => ({
+  sendNotification: vi.fn(),
+  sendRequest: vi.fn(),
+  signal: new AbortController().signal,
+});
+
+describe('DownstreamRequestService', () => {
+  let service: DownstreamRequestService;
+
+  beforeEach(() => {
+    service = new DownstreamRequestService();
+  });
+
+  it('should know the downstream request while its backend request runs', async () => {
+    const downstream = createDownstream();
+    let seen: unknown;
+
+    const result = await service.run('backend', downstream, async () => {
+      seen = service.getSole('backend');
+      return 'result';
+    });
+
+    expect(result).toBe('result');
+    expect(seen).toBe(downstream);
+    expect(service.getSole('backend')).toBeUndefined();
+  });
+
+  it('should not pick one of concurrent requests to the same backend', async () => {
+    const first = createDownstream();
+    const second = createDownstream();
+    let finishSecond = () => {};
+
+    const firstCall = service.run('backend', first, () => new Promise((r) => setTimeout(r, 0)));
+    const secondCall = service.run(
+      'backend',
+      second,
+      () => new Promise<void>((resolve) => (finishSecond = resolve))
+    );
+
+    expect(service.getSole('backend')).toBeUndefined();
+    expect(service.getSole('other')).toBeUndefined();
+
+    await firstCall;
+    expect(service.getSole('backend')).toBe(second);
+
+    finishSecond();
+    await secondCall;
+    expect(service.getSole('backend')).toBeUndefined();
+  });
+
+  it('should forget the request when the backend request fails', async () => {
+    await expect(
+      service.run('backend', createDownstream(), async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(service.getSole('backend')).toBeUndefined();
+  });
+
+  it('should run requests without a downstream request untracked', async () => {
+    const result = await service.run('backend', undefined, async () => {
+      expect(service.getSole('backend')).toBeUndefined();
+      return 42;
+    });
+
+    expect(result).toBe(42);
+  });
+});
@@ -0,0 +1,51 @@
+import { DownstreamContext } from '../utils/request-options-utils.js';
+
+/**
+ * Keeps track of the downstream requests each backend is serving, so that a
+ * request the backend sends back while working on one (e.g. sampling) can be
+ * passed on to the client that made it.
+ */
+export class DownstreamRequestService {
+  private pending = new Map<string, DownstreamContext[]>();
+
+  /**
+   * Runs a request forwarded to a backend on behalf of a downstream request
+   * @param serverName Backend the request is forwarded to
+   * @param downstream The downstream request, if known
+   * @param call Sends the request to the backend
+   */
+  async run<T>(
+    serverName: string,
+    downstream: DownstreamContext | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    if (!downstream) {
+      return call();
+    }
+
+    const requests = this.pending.get(serverName) ?? [];
+    requests.push(downstream);
+    this.pending.set(serverName, requests);
+
+    try {
+      return await call();
+    } finally {
+      requests.splice(requests.indexOf(downstream), 1);
+      if (requests.length === 0 && this.pending.get(serverName) === requests) {
+        this.pending.delete(serverName);
+      }
+    }
+  }
+
+  /**
+   * Gets the downstream request a backend is serving, unless it serves none or
+   * several at once, in which case the request it sends back cannot be traced
+   */
+  getSole(serverName: string): DownstreamContext | undefined {
+    const requests = this.pending.get(serverName);
+    return requests?.length === 1 ? requests[0] : undefined;
+  }
+}
+
+// Singleton instance for use across the application
+export const downstreamRequestService = new DownstreamRequestService();
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LogLevelService, supportsLogging } from './log-level-service.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { ConnectedClient } from '../client.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+vi.mock('../mappers/client-maps.js', () => ({
+  clientMaps: {
+    getAllClients: vi.fn(),
+  },
+}));
+
+const createClient = (name: string, capabilities: Record<string, object>): ConnectedClient => ({
+  client: {
+    getServerCapabilities: () => capabilities,
+    setLoggingLevel: vi.fn().mockResolvedValue({}),
+  } as unknown as Client,
+  name,
+  cleanup: async () => {},
+});
+
+describe('LogLevelService', () => {
+  let service: LogLevelService;
+  let backend: ConnectedClient;
+  let withoutLogging: ConnectedClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new LogLevelService();
+    backend = createClient('backend', { logging: {} });
+    withoutLogging = createClient('quiet', { tools: {} });
+    vi.mocked(clientMaps.getAllClients).mockReturnValue(new Set([backend, withoutLogging]));
+  });
+
+  it('should set backends that support logging to the requested level', async () => {
+    await service.setLevel('s1', 'warning');
+
+    expect(backend.client.setLoggingLevel).toHaveBeenCalledWith('warning');
+    expect(withoutLogging.client.setLoggingLevel).not.toHaveBeenCalled();
+    expect(service.getLevel('s1')).toBe('warning');
+    expect(supportsLogging(backend)).toBe(true);
+    expect(supportsLogging(withoutLogging)).toBe(false);
+  });
+
+  it('should set backends to the most verbose level of all sessions', async () => {
+    await service.setLevel('s1', 'error');
+    await service.setLevel('s2', 'info');
+    await service.setLevel('s1', 'critical');
+
+    expect(vi.mocked(backend.client.setLoggingLevel).mock.calls).toEqual([['error'], ['info']]);
+    expect(service.getBackendLevel()).toBe('info');
+
+    await service.removeSession('s2');
+
+    expect(backend.client.setLoggingLevel).toHaveBeenLastCalledWith('critical');
+    expect(service.getLevel('s2')).toBeUndefined();
+  });
+
+  it('should filter messages by the level of each session', async () => {
+    await service.setLevel('s1', 'warning');
+
+    expect(service.isIgnored('s1', 'info')).toBe(true);
+    expect(service.isIgnored('s1', 'warning')).toBe(false);
+    expect(service.isIgnored('s1', 'emergency')).toBe(false);
+    expect(service.isIgnored('s2', 'debug')).toBe(false);
+  });
+
+  it('should apply the current level to a reconnected backend', async () => {
+    await service.restore(backend);
+    expect(backend.client.setLoggingLevel).not.toHaveBeenCalled();
+
+    await service.setLevel('s1', 'debug');
+    const reconnected = createClient('backend', { logging: {} });
+    await service.restore(reconnected);
+
+    expect(reconnected.client.setLoggingLevel).toHaveBeenCalledWith('debug');
+  });
+
+  it('should keep going when a backend rejects the level', async () => {
+    const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.mocked(backend.client.setLoggingLevel).mockRejectedValueOnce(new Error('nope'));
+
+    await service.setLevel('s1', 'info');
+
+    expect(service.getLevel('s1')).toBe('info');
+    expect(debugSpy).toHaveBeenCalled();
+    debugSpy.mockRestore();
+  });
+});
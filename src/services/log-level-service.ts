@@ -0,0 +1,107 @@
+import { LoggingLevel, LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectedClient } from '../client.js';
+import { clientMaps } from '../mappers/client-maps.js';
+
+const severityOf = (level: LoggingLevel) => LoggingLevelSchema.options.indexOf(level);
+
+/**
+ * Checks whether a backend sends log messages
+ */
+export function supportsLogging(connectedClient: ConnectedClient): boolean {
+  return connectedClient.client.getServerCapabilities()?.logging !== undefined;
+}
+
+/**
+ * Keeps the log level each downstream session asked for and sets backends to
+ * the most verbose of them. Messages are then filtered per session, so every
+ * session receives what it asked for even though backends are shared.
+ */
+export class LogLevelService {
+  private levels = new Map<string, LoggingLevel>();
+
+  /**
+   * Sets the log level of a session and passes the resulting level on to the backends
+   */
+  async setLevel(sessionId: string, level: LoggingLevel): Promise<void> {
+    const previous = this.getBackendLevel();
+    this.levels.set(sessionId, level);
+    await this.applyIfChanged(previous);
+  }
+
+  /**
+   * Forgets the log level of a session, e.g. when it closes
+   */
+  async removeSession(sessionId: string): Promise<void> {
+    const previous = this.getBackendLevel();
+    if (!this.levels.delete(sessionId)) {
+      return;
+    }
+    await this.applyIfChanged(previous);
+  }
+
+  /**
+   * Gets the log level a session asked for, if any
+   */
+  getLevel(sessionId: string): LoggingLevel | undefined {
+    return this.levels.get(sessionId);
+  }
+
+  /**
+   * Gets the level backends are set to: the most verbose level any session asked for
+   */
+  getBackendLevel(): LoggingLevel | undefined {
+    let backendLevel: LoggingLevel | undefined;
+    for (const level of this.levels.values()) {
+      if (!backendLevel || severityOf(level) < severityOf(backendLevel)) {
+        backendLevel = level;
+      }
+    }
+    return backendLevel;
+  }
+
+  /**
+   * Checks whether a message of the given level is below the level of a session.
+   * Sessions that never set a level receive every message.
+   */
+  isIgnored(sessionId: string, level: LoggingLevel): boolean {
+    const sessionLevel = this.levels.get(sessionId);
+    return sessionLevel !== undefined && severityOf(level) < severityOf(sessionLevel);
+  }
+
+  /**
+   * Sets a new connection to a backend to the current level.
+   * Backends start at their own default level after a reconnect.
+   */
+  async restore(client: ConnectedClient): Promise<void> {
+    const level = this.getBackendLevel();
+    if (level) {
+      await this.apply(client, level);
+    }
+  }
+
+  private async applyIfChanged(previous: LoggingLevel | undefined): Promise<void> {
+    const level = this.getBackendLevel();
+    // Without any session asking for a level, backends keep the last one they were set to
+    if (!level || level === previous) {
+      return;
+    }
+    await Promise.all(
+      Array.from(clientMaps.getAllClients()).map((client) => this.apply(client, level))
+    );
+  }
+
+  private async apply(client: ConnectedClient, level: LoggingLevel): Promise<void> {
+    if (!supportsLogging(client)) {
+      return;
+    }
+    try {
+      await client.client.setLoggingLevel(level);
+    } catch (error) {
+      // Harmless: the backend keeps logging at its previous level
+      console.debug(`Failed to set log level on ${client.name}:`, error);
+    }
+  }
+}
+
+// Singleton instance for use across the application
+export const logLevelService = new LogLevelService();
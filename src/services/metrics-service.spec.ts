@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MetricsService } from './metrics-service.js';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+  const labels = { server: 'github', method: 'tools/call' as const, name: 'create_issue' };
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  const sample = async (metric: string) => {
+    const text = await service.render();
+    const line = text.split('\n').find((l) => l.startsWith(metric) && !l.startsWith('#'));
+    return line === undefined ? undefined : Number(line.split(' ').pop());
+  };
+
+  it('should count successful calls and time them', async () => {
+    const result = await service.observe(labels, async () => ({ content: [] }));
+
+    expect(result).toEqual({ content: [] });
+    expect(
+      await sample(
+        'mcp_proxy_upstream_requests_total{server="github",method="tools/call",name="create_issue",status="success"}'
+      )
+    ).toBe(1);
+    expect(
+      await sample(
+        'mcp_proxy_upstream_request_duration_seconds_count{server="github",method="tools/call",name="create_issue"}'
+      )
+    ).toBe(1);
+  });
+
+  it('should count thrown errors and rethrow them', async () => {
+    await expect(
+      service.observe(labels, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(
+      await sample(
+        'mcp_proxy_upstream_requests_total{server="github",method="tools/call",name="create_issue",status="error"}'
+      )
+    ).toBe(1);
+  });
+
+  it('should count tool results flagged as errors', async () => {
+    await service.observe(labels, async () => ({ content: [], isError: true }));
+
+    expect(
+      await sample(
+        'mcp_proxy_upstream_requests_total{server="github",method="tools/call",name="create_issue",status="error"}'
+      )
+    ).toBe(1);
+  });
+
+  it('should report active sessions from the tracked source', async () => {
+    expect(await sample('mcp_proxy_active_sessions')).toBe(0);
+
+    service.trackActiveSessions(() => 3);
+
+    expect(await sample('mcp_proxy_active_sessions')).toBe(3);
+  });
+
+  it('should report connected backends', async () => {
+    expect(await sample('mcp_proxy_connected_backends')).toBe(0);
+  });
+});
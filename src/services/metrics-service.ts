@@ -0,0 +1,103 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { clientMaps } from '../mappers/client-maps.js';
+
+/**
+ * Kind of request proxied to a backend
+ */
+export type UpstreamMethod = 'tools/call' | 'resources/read' | 'prompts/get';
+
+export interface UpstreamCallLabels {
+  server: string;
+  method: UpstreamMethod;
+  /** Tool or prompt name; empty for resources, whose URIs are unbounded */
+  name: string;
+}
+
+type Labels = 'server' | 'method' | 'name';
+
+/**
+ * Collects Prometheus metrics about proxied traffic and hub state
+ */
+export class MetricsService {
+  readonly registry = new Registry();
+  private activeSessions: () => number = () => 0;
+
+  private readonly requests: Counter<Labels | 'status'>;
+  private readonly duration: Histogram<Labels>;
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+
+    this.requests = new Counter({
+      name: 'mcp_proxy_upstream_requests_total',
+      help: 'Requests proxied to backend servers',
+      labelNames: ['server', 'method', 'name', 'status'],
+      registers: [this.registry],
+    });
+
+    this.duration = new Histogram({
+      name: 'mcp_proxy_upstream_request_duration_seconds',
+      help: 'Duration of requests proxied to backend servers',
+      labelNames: ['server', 'method', 'name'],
+      buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+      registers: [this.registry],
+    });
+
+    // Gauges read their value when scraped, so they never go stale
+    const getActiveSessions = () => this.activeSessions();
+    new Gauge({
+      name: 'mcp_proxy_active_sessions',
+      help: 'Downstream client sessions currently open',
+      registers: [this.registry],
+      collect() {
+        this.set(getActiveSessions());
+      },
+    });
+
+    new Gauge({
+      name: 'mcp_proxy_connected_backends',
+      help: 'Backend servers currently connected',
+      registers: [this.registry],
+      collect() {
+        this.set(clientMaps.getAllClients().size);
+      },
+    });
+  }
+
+  /**
+   * Times a request to a backend and counts its outcome.
+   * A tool result with `isError: true` counts as an error.
+   */
+  async observe<T>(labels: UpstreamCallLabels, call: () => Promise<T>): Promise<T> {
+    const stopTimer = this.duration.startTimer(labels);
+    try {
+      const result = await call();
+      const isError =
+        typeof result === 'object' && result !== null && 'isError' in result && result.isError;
+      this.requests.inc({ ...labels, status: isError ? 'error' : 'success' });
+      return result;
+    } catch (error) {
+      this.requests.inc({ ...labels, status: 'error' });
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  }
+
+  /**
+   * Sets where the number of open sessions is read from
+   */
+  trackActiveSessions(count: () => number): void {
+    this.activeSessions = count;
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
+
+// Singleton instance for use across the application
+export const metricsService = new MetricsService();
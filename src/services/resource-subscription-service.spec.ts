@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResourceSubscriptionService } from './resource-subscription-service.js';
+import { clientMaps } from '../mappers/client-maps.js';
+import { ConnectedClient } from '../client.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+
+vi.mock('../mappers/client-maps.js', () => ({
+  clientMaps: {
+    getClientForResource: vi.fn(),
+    getClientByName: vi.fn(),
+  },
+}));
+
+const createClient = (name: string): ConnectedClient => ({
+  client: { request: vi.fn().mockResolvedValue({}) } as unknown as Client,
+  name,
+  cleanup: async () => {},
+});
+
+describe('ResourceSubscriptionService', () => {
+  let service: ResourceSubscriptionService;
+  let backend: ConnectedClient;
+
+  const requests = (client: ConnectedClient) =>
+    vi.mocked(client.client.request).mock.calls.map(([request]) => request);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ResourceSubscriptionService();
+    backend = createClient('backend');
+    vi.mocked(clientMaps.getClientForResource).mockReturnValue(backend);
+    vi.mocked(clientMaps.getClientByName).mockReturnValue(backend);
+  });
+
+  it('should subscribe the backend once for all sessions', async () => {
+    await service.subscribe('s1', 'file:///a.txt');
+    await service.subscribe('s2', 'file:///a.txt');
+
+    expect(requests(backend)).toEqual([
+      { method: 'resources/subscribe', params: { uri: 'file:///a.txt' } },
+    ]);
+    expect(service.isSubscribed('s1', 'file:///a.txt')).toBe(true);
+    expect(service.isSubscribed('s2', 'file:///a.txt')).toBe(true);
+    expect(service.isSubscribed('s3', 'file:///a.txt')).toBe(false);
+  });
+
+  it('should unsubscribe the backend when the last session unsubscribes', async () => {
+    await service.subscribe('s1', 'file:///a.txt');
+    await service.subscribe('s2', 'file:///a.txt');
+
+    await service.unsubscribe('s1', 'file:///a.txt');
+    expect(requests(backend)).toHaveLength(1);
+
+    await service.unsubscribe('s2', 'file:///a.txt');
+    expect(requests(backend)).toEqual([
+      { method: 'resources/subscribe', params: { uri: 'file:///a.txt' } },
+      { method: 'resources/unsubscribe', params: { uri: 'file:///a.txt' } },
+    ]);
+    expect(service.isSubscribed('s2', 'file:///a.txt')).toBe(false);
+  });
+
+  it('should ignore unsubscribing from a resource the session is not subscribed to', async () => {
+    await service.subscribe('s1', 'file:///a.txt');
+
+    await service.unsubscribe('s2', 'file:///a.txt');
+    await service.unsubscribe('s1', 'file:///b.txt');
+
+    expect(requests(backend)).toHaveLength(1);
+    expect(service.isSubscribed('s1', 'file:///a.txt')).toBe(true);
+  });
+
+  it('should drop all subscriptions of a closed session', async () => {
+    await service.subscribe('s1', 'file:///a.txt');
+    await service.subscribe('s1', 'file:///b.txt');
+    await service.subscribe('s2', 'file:///b.txt');
+
+    await service.unsubscribeAll('s1');
+
+    expect(requests(backend).slice(2)).toEqual([
+      { method: 'resources/unsubscribe', params: { uri: 'file:///a.txt' } },
+    ]);
+    expect(service.isSubscribed('s2', 'file:///b.txt')).toBe(true);
+  });
+
+  it('should reject unknown resources', async () => {
+    vi.mocked(clientMaps.getClientForResource).mockReturnValue(undefined);
+
+    await expect(service.subscribe('s1', 'file:///a.txt')).rejects.toThrow(
+      'Unknown resource: file:///a.txt'
+    );
+  });
+
+  it('should forget a subscription the backend rejected', async () => {
+    vi.mocked(backend.client.request).mockRejectedValueOnce(new Error('Method not found'));
+
+    await expect(service.subscribe('s1', 'file:///a.txt')).rejects.toThrow('Method not found');
+    expect(service.isSubscribed('s1', 'file:///a.txt')).toBe(false);
+  });
+
+  it('should fail a concurrent subscriber when the shared subscription is rejected', async () => {
+    vi.mocked(backend.client.request).mockRejectedValueOnce(new Error('Method not found'));
+
+    const first = service.subscribe('s1', 'file:///a.txt');
+    const second = service.subscribe('s2', 'file:///a.txt');
+
+    await expect(first).rejects.toThrow('Method not found');
+    await expect(second).rejects.toThrow('Method not found');
+    expect(requests(backend)).toHaveLength(1);
+    expect(service.isSubscribed('s2', 'file:///a.txt')).toBe(false);
+  });
+
+  it('should resubscribe a reconnected backend', async () => {
+    const other = createClient('other');
+    await service.subscribe('s1', 'file:///a.txt');
+    vi.mocked(clientMaps.getClientForResource).mockReturnValue(other);
+    await service.subscribe('s1', 'other://b');
+
+    const reconnected = createClient('backend');
+    await service.restore(reconnected);
+
+    expect(requests(reconnected)).toEqual([
+      { method: 'resources/subscribe', params: { uri: 'file:///a.txt' } },
+    ]);
+  });
+});
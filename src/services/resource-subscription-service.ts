@@ -0,0 +1,130 @@
+import { EmptyResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectedClient } from '../client.js';
+import { clientMaps } from '../mappers/client-maps.js';
+
+interface Subscription {
+  /** Backend the URI was subscribed on */
+  serverName: string;
+  /** Proxy sessions that subscribed to the URI */
+  sessionIds: Set<string>;
+  /** Settles when the backend has answered the subscribe request */
+  ready: Promise<void>;
+}
+
+/**
+ * Shares resource subscriptions on backends between downstream sessions.
+ * A backend is subscribed to a URI when the first session subscribes and
+ * unsubscribed when the last one unsubscribes or closes.
+ */
+export class ResourceSubscriptionService {
+  private subscriptions = new Map<string, Subscription>();
+
+  /**
+   * Subscribes a session to a resource
+   * @throws When the resource is unknown or the backend rejects the subscription
+   */
+  async subscribe(sessionId: string, uri: string): Promise<void> {
+    const existing = this.subscriptions.get(uri);
+    if (existing) {
+      existing.sessionIds.add(sessionId);
+      // Fails like the first subscriber when the backend rejects the subscription
+      await existing.ready;
+      return;
+    }
+
+    const client = clientMaps.getClientForResource(uri);
+    if (!client) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    // Registered before the request so that concurrent subscribers share it
+    const subscription: Subscription = {
+      serverName: client.name,
+      sessionIds: new Set([sessionId]),
+      ready: this.request(client, 'resources/subscribe', uri),
+    };
+    this.subscriptions.set(uri, subscription);
+
+    try {
+      await subscription.ready;
+    } catch (error) {
+      if (this.subscriptions.get(uri) === subscription) {
+        this.subscriptions.delete(uri);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unsubscribes a session from a resource.
+   * Unsubscribing from a resource the session is not subscribed to does nothing.
+   */
+  async unsubscribe(sessionId: string, uri: string): Promise<void> {
+    const subscription = this.subscriptions.get(uri);
+    if (!subscription?.sessionIds.delete(sessionId) || subscription.sessionIds.size > 0) {
+      return;
+    }
+
+    this.subscriptions.delete(uri);
+    const client = clientMaps.getClientByName(subscription.serverName);
+    if (!client) {
+      return;
+    }
+
+    try {
+      await this.request(client, 'resources/unsubscribe', uri);
+    } catch (error) {
+      // Harmless: updates the backend keeps sending reach no session
+      console.debug(`Failed to unsubscribe from ${uri} on ${subscription.serverName}:`, error);
+    }
+  }
+
+  /**
+   * Drops every subscription of a session, e.g. when it closes
+   */
+  async unsubscribeAll(sessionId: string): Promise<void> {
+    const uris = Array.from(this.subscriptions.entries())
+      .filter(([, subscription]) => subscription.sessionIds.has(sessionId))
+      .map(([uri]) => uri);
+
+    await Promise.all(uris.map((uri) => this.unsubscribe(sessionId, uri)));
+  }
+
+  /**
+   * Checks whether a session is subscribed to a resource
+   */
+  isSubscribed(sessionId: string, uri: string): boolean {
+    return this.subscriptions.get(uri)?.sessionIds.has(sessionId) ?? false;
+  }
+
+  /**
+   * Subscribes a new connection to a backend to everything the previous one was
+   * subscribed to. Subscriptions do not survive a reconnect on the backend side.
+   */
+  async restore(client: ConnectedClient): Promise<void> {
+    const uris = Array.from(this.subscriptions.entries())
+      .filter(([, subscription]) => subscription.serverName === client.name)
+      .map(([uri]) => uri);
+
+    await Promise.all(
+      uris.map(async (uri) => {
+        try {
+          await this.request(client, 'resources/subscribe', uri);
+        } catch (error) {
+          console.error(`Error restoring subscription to ${uri} on ${client.name}:`, error);
+        }
+      })
+    );
+  }
+
+  private async request(
+    client: ConnectedClient,
+    method: 'resources/subscribe' | 'resources/unsubscribe',
+    uri: string
+  ): Promise<void> {
+    await client.client.request({ method, params: { uri } }, EmptyResultSchema);
+  }
+}
+
+// Singleton instance for use across the application
+export const resourceSubscriptionService = new ResourceSubscriptionService();
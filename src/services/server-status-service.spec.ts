@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ServerStatusService } from './server-status-service.js';
+
+describe('ServerStatusService', () => {
+  let service: ServerStatusService;
+
+  beforeEach(() => {
+    service = new ServerStatusService();
+  });
+
+  it('should create a status on the first transition', () => {
+    service.markConnecting('server1');
+
+    expect(service.getStatus('server1')).toMatchObject({
+      name: 'server1',
+      state: 'connecting',
+      reconnectAttempts: 0,
+    });
+    expect(service.getStatus('unknown')).toBeUndefined();
+  });
+
+  it('should set connectedAt when a connection becomes ready', () => {
+    service.markConnecting('server1');
+    service.markReady('server1');
+
+    const status = service.getStatus('server1');
+    expect(status?.state).toBe('ready');
+    expect(status?.connectedAt).toBeInstanceOf(Date);
+  });
+
+  it('should keep connectedAt when recovering from degraded', () => {
+    service.markReady('server1');
+    const connectedAt = service.getStatus('server1')?.connectedAt;
+
+    service.markDegraded('server1', new Error('ping timeout'));
+    service.markReady('server1');
+
+    expect(service.getStatus('server1')?.connectedAt).toBe(connectedAt);
+  });
+
+  it('should count reconnect attempts until ready again', () => {
+    service.markReady('server1');
+    service.markDegraded('server1');
+    service.markConnecting('server1', true);
+    service.markDegraded('server1');
+    service.markConnecting('server1', true);
+
+    expect(service.getStatus('server1')?.reconnectAttempts).toBe(2);
+
+    service.markReady('server1');
+    expect(service.getStatus('server1')?.reconnectAttempts).toBe(0);
+  });
+
+  it('should record the last error', () => {
+    service.markConnecting('server1');
+    service.markFailed('server1', new Error('spawn ENOENT'));
+
+    const status = service.getStatus('server1');
+    expect(status?.state).toBe('failed');
+    expect(status?.lastError).toBe('spawn ENOENT');
+    expect(status?.lastErrorAt).toBeInstanceOf(Date);
+    expect(status?.connectedAt).toBeUndefined();
+  });
+
+  it('should ignore errors for unknown servers', () => {
+    service.recordError('unknown', 'boom');
+
+    expect(service.getAllStatuses()).toEqual([]);
+  });
+
+  it('should only update since when the state changes', () => {
+    service.markReady('server1');
+    const since = service.getStatus('server1')?.since;
+
+    service.markReady('server1');
+
+    expect(service.getStatus('server1')?.since).toBe(since);
+  });
+
+  it('should record successful calls', () => {
+    service.markReady('server1');
+
+    service.recordSuccessfulCall('server1');
+    service.recordSuccessfulCall('unknown');
+
+    expect(service.getStatus('server1')?.lastSuccessfulCallAt).toBeInstanceOf(Date);
+    expect(service.getStatus('unknown')).toBeUndefined();
+  });
+
+  it('should remove a server', () => {
+    service.markReady('server1');
+    service.markReady('server2');
+
+    service.remove('server1');
+
+    expect(service.getAllStatuses().map((s) => s.name)).toEqual(['server2']);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Connection state of a backend server.
+ * - connecting: a connection attempt is in progress
+ * - ready: connected and passing health checks
+ * - degraded: health checks are failing or the connection was lost and is being re-established
+ * - failed: the hub gave up connecting; a restart or config change is needed
+ */
+export type ServerConnectionState = 'connecting' | 'ready' | 'degraded' | 'failed';
+
+export interface ServerStatus {
+  name: string;
+  state: ServerConnectionState;
+  /** When the server entered its current state */
+  since: Date;
+  /** When the current connection was established */
+  connectedAt?: Date;
+  lastError?: string;
+  lastErrorAt?: Date;
+  /** When a request proxied to the server last succeeded */
+  lastSuccessfulCallAt?: Date;
+  /** Number of reconnection attempts since the connection was last ready */
+  reconnectAttempts: number;
+}
+
+/**
+ * Tracks the connection state of every backend server
+ */
+export class ServerStatusService {
+  private statuses = new Map<string, ServerStatus>();
+
+  /**
+   * Gets the status of a server
+   */
+  getStatus(serverName: string): ServerStatus | undefined {
+    return this.statuses.get(serverName);
+  }
+
+  /**
+   * Gets the status of every known server
+   */
+  getAllStatuses(): ServerStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  /**
+   * Marks a server as connecting
+   * @param reconnect Whether this attempt re-establishes a lost connection
+   */
+  markConnecting(serverName: string, reconnect = false): void {
+    const status = this.transition(serverName, 'connecting');
+    if (reconnect) {
+      status.reconnectAttempts++;
+    }
+  }
+
+  /**
+   * Marks a server as connected and healthy
+   */
+  markReady(serverName: string): void {
+    const previousState = this.statuses.get(serverName)?.state;
+    const status = this.transition(serverName, 'ready');
+    if (previousState !== 'ready' && previousState !== 'degraded') {
+      status.connectedAt = new Date();
+    }
+    status.reconnectAttempts = 0;
+  }
+
+  /**
+   * Marks a server as degraded, recording the error that caused it
+   */
+  markDegraded(serverName: string, error?: unknown): void {
+    this.transition(serverName, 'degraded');
+    if (error !== undefined) {
+      this.recordError(serverName, error);
+    }
+  }
+
+  /**
+   * Marks a server as failed, recording the error that caused it
+   */
+  markFailed(serverName: string, error?: unknown): void {
+    const status = this.transition(serverName, 'failed');
+    status.connectedAt = undefined;
+    if (error !== undefined) {
+      this.recordError(serverName, error);
+    }
+  }
+
+  /**
+   * Records an error without changing the state
+   */
+  recordError(serverName: string, error: unknown): void {
+    const status = this.statuses.get(serverName);
+    if (!status) return;
+    status.lastError = error instanceof Error ? error.message : String(error);
+    status.lastErrorAt = new Date();
+  }
+
+  /**
+   * Records that a request proxied to the server succeeded
+   */
+  recordSuccessfulCall(serverName: string): void {
+    const status = this.statuses.get(serverName);
+    if (status) {
+      status.lastSuccessfulCallAt = new Date();
+    }
+  }
+
+  /**
+   * Forgets a server, e.g. after it was removed from the config
+   */
+  remove(serverName: string): void {
+    this.statuses.delete(serverName);
+  }
+
+  private transition(serverName: string, state: ServerConnectionState): ServerStatus {
+    let status = this.statuses.get(serverName);
+    if (!status) {
+      status = { name: serverName, state, since: new Date(), reconnectAttempts: 0 };
+      this.statuses.set(serverName, status);
+    } else if (status.state !== state) {
+      status.state = state;
+      status.since = new Date();
+    }
+    return status;
+  }
+}
+
+// Export a singleton instance
+export const serverStatusService = new ServerStatusService();
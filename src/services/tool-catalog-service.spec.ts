@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCatalogService } from './tool-catalog-service.js';
+import { ConnectedClient } from '../client.js';
+
+const createClient = (name: string): ConnectedClient => ({
+  client: {} as Client,
+  name,
+  cleanup: async () => {},
+});
+
+const tools: Tool[] = [{ name: 'tool1', inputSchema: { type: 'object' } }];
+
+describe('ToolCatalogService', () => {
+  let now: number;
+  let service: ToolCatalogService;
+  let backend: ConnectedClient;
+
+  beforeEach(() => {
+    now = 1000;
+    service = new ToolCatalogService(() => now);
+    backend = createClient('backend');
+  });
+
+  it('should cache the tools of a backend until invalidated', async () => {
+    expect(service.isFresh(backend)).toBe(false);
+
+    await service.load(backend, async () => tools);
+
+    expect(service.isFresh(backend)).toBe(true);
+    expect(service.getTools(backend)).toBe(tools);
+
+    service.invalidate('backend');
+
+    expect(service.isFresh(backend)).toBe(false);
+    expect(service.getTools(backend)).toBeUndefined();
+  });
+
+  it('should expire cached tools after the TTL', async () => {
+    await service.load(backend, async () => tools);
+
+    now += 999;
+    expect(service.isFresh(backend, 1000)).toBe(true);
+    now += 1;
+    expect(service.isFresh(backend, 1000)).toBe(false);
+    expect(service.isFresh(backend, 0)).toBe(false);
+    expect(service.isFresh(backend)).toBe(true);
+  });
+
+  it('should treat the tools of a previous connection as stale', async () => {
+    await service.load(backend, async () => tools);
+    const reconnected = createClient('backend');
+
+    expect(service.isFresh(reconnected)).toBe(false);
+    expect(service.getTools(reconnected)).toBeUndefined();
+  });
+
+  it('should share concurrent loads of the same connection', async () => {
+    const fetch = vi.fn(async () => tools);
+
+    const [first, second] = await Promise.all([
+      service.load(backend, fetch),
+      service.load(backend, fetch),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(first).toBe(second);
+  });
+
+  it('should keep nothing when a load fails', async () => {
+    await expect(
+      service.load(backend, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(service.getTools(backend)).toBeUndefined();
+    await service.load(backend, async () => tools);
+    expect(service.getTools(backend)).toBe(tools);
+  });
+
+  it('should tell listeners about invalidations until they unsubscribe', () => {
+    const listener = vi.fn();
+    const stop = service.onInvalidate(listener);
+
+    service.invalidate('backend');
+    stop();
+    service.invalidate('backend');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('backend');
+  });
+});
@@ -0,0 +1,85 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ConnectedClient } from '../client.js';
+
+interface CatalogEntry {
+  /** Connection the tools were listed on; a reconnect makes the entry stale */
+  client: ConnectedClient;
+  tools: Tool[];
+  fetchedAt: number;
+}
+
+/**
+ * Caches the tools each backend offers so that listing tools does not query
+ * every backend each time. An entry is refetched after the backend reconnects,
+ * after it is invalidated, e.g. on `tools/list_changed`, or once it is older
+ * than the TTL.
+ */
+export class ToolCatalogService {
+  private entries = new Map<string, CatalogEntry>();
+  private pending = new Map<ConnectedClient, Promise<Tool[]>>();
+  private invalidationListeners = new Set<(serverName: string) => void>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Checks whether the cached tools of a backend can be used
+   * @param ttlMs Maximum age of the cached tools; undefined keeps them until invalidated
+   */
+  isFresh(client: ConnectedClient, ttlMs?: number): boolean {
+    const entry = this.entries.get(client.name);
+    if (!entry || entry.client !== client) {
+      return false;
+    }
+    return ttlMs === undefined || this.now() - entry.fetchedAt < ttlMs;
+  }
+
+  /**
+   * Fetches the tools of a backend and caches them.
+   * Concurrent loads of the same connection share one fetch.
+   */
+  async load(client: ConnectedClient, fetch: () => Promise<Tool[]>): Promise<Tool[]> {
+    const pending = this.pending.get(client);
+    if (pending) {
+      return pending;
+    }
+
+    const load = fetch()
+      .then((tools) => {
+        this.entries.set(client.name, { client, tools, fetchedAt: this.now() });
+        return tools;
+      })
+      .finally(() => this.pending.delete(client));
+    this.pending.set(client, load);
+    return load;
+  }
+
+  /**
+   * Gets the cached tools of a backend connection, if any
+   */
+  getTools(client: ConnectedClient): Tool[] | undefined {
+    const entry = this.entries.get(client.name);
+    return entry?.client === client ? entry.tools : undefined;
+  }
+
+  /**
+   * Drops the cached tools of a backend and tells the listeners
+   */
+  invalidate(serverName: string): void {
+    this.entries.delete(serverName);
+    for (const listener of this.invalidationListeners) {
+      listener(serverName);
+    }
+  }
+
+  /**
+   * Registers a listener called whenever a backend's tools are invalidated
+   * @returns A function that removes the listener
+   */
+  onInvalidate(listener: (serverName: string) => void): () => void {
+    this.invalidationListeners.add(listener);
+    return () => this.invalidationListeners.delete(listener);
+  }
+}
+
+// Singleton instance for use across the application
+export const toolCatalogService = new ToolCatalogService();
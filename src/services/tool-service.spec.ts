@@ -1,9 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ToolService } from './tool-service.js';
+import { toolCatalogService } from './tool-catalog-service.js';
 import { ConnectedClient } from '../client.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { clientMaps } from '../mappers/client-maps.js';
+import { ToolMapping } from '../config.js';
 
 interface ToolsResponse {
   tools: Tool[] | unknown;
@@ -32,13 +33,6 @@ describe('ToolService', () => {
   });
 
   describe('fetchToolsFromClient', () => {
-    // Set up a spy on clientMaps.mapToolToClient instead of mocking it on toolService
-    let mapToolToClientSpy: ReturnType<typeof vi.spyOn>;
-
-    beforeEach(() => {
-      // Create a spy on clientMaps.mapToolToClient
-      mapToolToClientSpy = vi.spyOn(clientMaps, 'mapToolToClient');
-    });
     it('should successfully fetch tools from a client', async () => {
       const toolsResponse: ToolsResponse = {
         tools: [
@@ -72,7 +66,7 @@ describe('ToolService', () => {
       vi.mocked(mockClient.client.request).mockResolvedValueOnce(toolsResponse);
 
       const options = { timeout: 5000 };
-      await toolService.fetchToolsFromClient(mockClient, undefined, undefined, options);
+      await toolService.fetchToolsFromClient(mockClient, undefined, options);
 
       expect(mockClient.client.request).toHaveBeenCalledWith(
         {
@@ -124,18 +118,10 @@ describe('ToolService', () => {
       expect(result).toEqual([]);
     });
 
-    it('should handle errors and return empty array', async () => {
-      // Mock console.error to avoid polluting test output
-      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-
+    it('should propagate errors so the caller can report the client as skipped', async () => {
       vi.mocked(mockClient.client.request).mockRejectedValueOnce(new Error('Test error'));
 
-      const result = await toolService.fetchToolsFromClient(mockClient);
-
-      expect(result).toEqual([]);
-      expect(consoleErrorSpy).toHaveBeenCalled();
-
-      consoleErrorSpy.mockRestore();
+      await expect(toolService.fetchToolsFromClient(mockClient)).rejects.toThrow('Test error');
     });
 
     it('should pass meta data to the client request', async () => {
@@ -146,7 +132,7 @@ describe('ToolService', () => {
       vi.mocked(mockClient.client.request).mockResolvedValueOnce(toolsResponse);
 
       const meta = { test: 'metadata' };
-      await toolService.fetchToolsFromClient(mockClient, undefined, meta);
+      await toolService.fetchToolsFromClient(mockClient, meta);
 
       expect(mockClient.client.request).toHaveBeenCalledWith(
         {
@@ -159,48 +145,277 @@ describe('ToolService', () => {
         undefined
       );
     });
+  });
 
-    it('should map tools to client during fetch', async () => {
-      const toolsResponse: ToolsResponse = {
-        tools: [
-          { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
-          { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
-        ],
-      };
+  describe('applyToolOverrides', () => {
+    const tool: Tool = {
+      name: 'search',
+      description: 'Search everything',
+      inputSchema: {
+        type: 'object',
+        properties: { query: { type: 'string' }, limit: { type: 'number' } },
+        required: ['query', 'limit'],
+      },
+      annotations: { readOnlyHint: true },
+    };
+    const withMapping = (mapping: Omit<ToolMapping, 'original' | 'exposed'>) => ({
+      command: 'test',
+      exposedTools: [{ original: 'search', exposed: 'search', ...mapping }],
+    });
+
+    it('should only prefix the description of tools without a mapping', () => {
+      expect(toolService.applyToolOverrides(tool, 'github')).toEqual({
+        ...tool,
+        description: '[github] Search everything',
+      });
+    });
+
+    it('should replace, prepend or append the description', () => {
+      const descriptionWith = (descriptionMode?: 'replace' | 'prepend' | 'append') =>
+        toolService.applyToolOverrides(
+          tool,
+          'github',
+          withMapping({ description: 'Find issues', descriptionMode })
+        ).description;
+
+      expect(descriptionWith()).toBe('Find issues');
+      expect(descriptionWith('prepend')).toBe('[github] Find issues\n\nSearch everything');
+      expect(descriptionWith('append')).toBe('[github] Search everything\n\nFind issues');
+    });
+
+    it('should patch the input schema and merge the annotations', () => {
+      const result = toolService.applyToolOverrides(
+        tool,
+        'github',
+        withMapping({
+          inputSchema: {
+            remove: ['limit'],
+            properties: { query: { type: 'string', maxLength: 50 } },
+          },
+          annotations: { title: 'Search' },
+        })
+      );
 
-      vi.mocked(mockClient.client.request).mockResolvedValueOnce(toolsResponse);
+      expect(result.inputSchema).toEqual({
+        type: 'object',
+        properties: { query: { type: 'string', maxLength: 50 } },
+        required: ['query'],
+      });
+      expect(result.annotations).toEqual({ readOnlyHint: true, title: 'Search' });
+      expect(result.description).toBe('[github] Search everything');
+    });
 
-      await toolService.fetchToolsFromClient(mockClient);
+    it('should apply the overrides when fetching tools', async () => {
+      vi.mocked(mockClient.client.request).mockResolvedValueOnce({ tools: [tool] });
+
+      const [result] = await toolService.fetchToolsFromClient(
+        mockClient,
+        undefined,
+        undefined,
+        withMapping({ description: 'Find issues' })
+      );
 
-      // Verify clientMaps.mapToolToClient was called for each tool
-      expect(mapToolToClientSpy).toHaveBeenCalledTimes(2);
-      expect(mapToolToClientSpy).toHaveBeenCalledWith('tool1', mockClient);
-      expect(mapToolToClientSpy).toHaveBeenCalledWith('tool2', mockClient);
+      expect(result.description).toBe('Find issues');
     });
 
-    it('should handle tool name mappings from exposedTools', async () => {
-      const toolsResponse: ToolsResponse = {
-        tools: [
-          { name: 'originalTool', description: 'Original Tool', inputSchema: { type: 'object' } },
-        ],
-      };
+    it('should hide fixed arguments and document default arguments', () => {
+      const result = toolService.applyToolOverrides(
+        tool,
+        'github',
+        withMapping({ fixedArgs: { query: 'repo:acme' }, defaultArgs: { limit: 10 } })
+      );
 
-      vi.mocked(mockClient.client.request).mockResolvedValueOnce(toolsResponse);
+      expect(result.inputSchema).toEqual({
+        type: 'object',
+        properties: { limit: { type: 'number', default: 10 } },
+        required: [],
+      });
+    });
+  });
+
+  describe('applyConfiguredArgs', () => {
+    const serverConfig = {
+      command: 'test',
+      exposedTools: [
+        {
+          original: 'search',
+          exposed: 'find',
+          fixedArgs: { owner: 'acme' },
+          defaultArgs: { limit: 10 },
+        },
+      ],
+    };
+
+    it('should add default and fixed arguments', () => {
+      expect(
+        toolService.applyConfiguredArgs('find', 'search', { query: 'bug' }, serverConfig)
+      ).toEqual({ query: 'bug', limit: 10, owner: 'acme' });
+    });
+
+    it('should let the client override default arguments', () => {
+      expect(toolService.applyConfiguredArgs('find', 'search', { limit: 5 }, serverConfig)).toEqual(
+        { limit: 5, owner: 'acme' }
+      );
+    });
+
+    it('should reject calls that set a fixed argument', () => {
+      expect(() =>
+        toolService.applyConfiguredArgs('find', 'search', { owner: 'evil' }, serverConfig)
+      ).toThrow('Tool find does not accept the fixed arguments owner');
+    });
+
+    it('should leave the arguments of other tools alone', () => {
+      const args = { owner: 'anyone' };
+
+      expect(toolService.applyConfiguredArgs('read', 'read', args, serverConfig)).toBe(args);
+      expect(toolService.applyConfiguredArgs('find', 'search', args)).toBe(args);
+    });
+  });
 
+  describe('checkToolArguments', () => {
+    const tool: Tool = {
+      name: 'search',
+      inputSchema: {
+        type: 'object',
+        properties: { limit: { type: 'number' } },
+        required: ['limit'],
+      },
+    };
+    const serverConfig = (validateArgs: 'off' | 'warn' | 'enforce') => ({
+      command: 'test',
+      validateArgs,
+    });
+
+    beforeEach(async () => {
+      await toolCatalogService.load(mockClient, async () => [tool]);
+    });
+
+    it('should reject invalid arguments when enforced', () => {
+      const result = toolService.checkToolArguments(
+        'find',
+        'search',
+        { limit: 'ten' },
+        mockClient,
+        serverConfig('enforce')
+      );
+
+      expect(result?.isError).toBe(true);
+      expect(result?.content).toEqual([
+        { type: 'text', text: 'Invalid arguments for tool find: /limit must be number' },
+      ]);
+    });
+
+    it('should only log invalid arguments when warning', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(
+        toolService.checkToolArguments('find', 'search', {}, mockClient, serverConfig('warn'))
+      ).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        "Invalid arguments for tool find: /limit must have required property 'limit'"
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should not validate when off or when the tool is not cached', () => {
+      expect(
+        toolService.checkToolArguments('find', 'search', {}, mockClient, serverConfig('off'))
+      ).toBeUndefined();
+      expect(toolService.checkToolArguments('find', 'search', {}, mockClient)).toBeUndefined();
+      expect(
+        toolService.checkToolArguments('other', 'other', {}, mockClient, serverConfig('enforce'))
+      ).toBeUndefined();
+    });
+
+    it('should accept valid arguments', () => {
+      expect(
+        toolService.checkToolArguments(
+          'find',
+          'search',
+          { limit: 10 },
+          mockClient,
+          serverConfig('enforce')
+        )
+      ).toBeUndefined();
+    });
+  });
+
+  describe('exposeTools', () => {
+    const tools: Tool[] = [
+      { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
+      { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
+    ];
+
+    it('should filter, rename and namespace the tools of a server', () => {
       const serverConfig = {
         command: 'test',
-        exposedTools: [{ original: 'originalTool', exposed: 'exposedTool' }],
+        exposedTools: [{ original: 'tool1', exposed: 'renamed' }],
+        toolNamespace: 'server' as const,
       };
 
-      await toolService.fetchToolsFromClient(mockClient, serverConfig);
+      expect(toolService.exposeTools(tools, 'github', serverConfig)).toEqual([
+        { tool: { ...tools[0], name: 'github__renamed' }, originalName: 'tool1' },
+      ]);
+    });
+
+    it('should use the server namespace over the default', () => {
+      expect(toolService.getToolPrefix('github', undefined, 'server')).toBe('github');
+      expect(
+        toolService.getToolPrefix('github', { command: 'test', toolNamespace: 'none' }, 'server')
+      ).toBeUndefined();
+      expect(
+        toolService.getToolPrefix('github', { command: 'test', toolNamespace: { prefix: 'gh' } })
+      ).toBe('gh');
+      expect(toolService.getToolPrefix('github')).toBeUndefined();
+    });
+  });
 
-      // Verify only exposed name is mapped (not the original name)
-      expect(mapToolToClientSpy).toHaveBeenCalledTimes(1);
-      expect(mapToolToClientSpy).toHaveBeenCalledWith('exposedTool', mockClient);
+  describe('addToolRoutes', () => {
+    const tools = [
+      {
+        tool: { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' as const } },
+        originalName: 'tool1',
+      },
+      {
+        tool: { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' as const } },
+        originalName: 'tool2',
+      },
+    ];
+
+    it('should route every tool to the client', () => {
+      const routes = new Map<string, ConnectedClient>();
+
+      toolService.addToolRoutes(routes, tools, mockClient);
+
+      expect(Array.from(routes.entries())).toEqual([
+        ['tool1', mockClient],
+        ['tool2', mockClient],
+      ]);
+    });
+
+    it('should route renamed tools by their exposed name', () => {
+      const routes = new Map<string, ConnectedClient>();
+
+      toolService.addToolRoutes(
+        routes,
+        [{ tool: { ...tools[0].tool, name: 'exposedTool' }, originalName: 'tool1' }],
+        mockClient
+      );
+
+      // Verify only the exposed name is routed (not the original name)
+      expect(routes.get('exposedTool')).toBe(mockClient);
+      expect(routes.has('tool1')).toBe(false);
 
       // Verify client toolMappings is updated
-      expect(mockClient.client.toolMappings).toBeDefined();
-      expect(mockClient.client.toolMappings?.exposedTool).toBe('originalTool');
+      expect(mockClient.client.toolMappings).toEqual({ exposedTool: 'tool1' });
+    });
+
+    it('should forget mappings that are no longer configured', () => {
+      mockClient.client.toolMappings = { stale: 'tool1' };
+
+      toolService.addToolRoutes(new Map(), tools, mockClient);
+
+      expect(mockClient.client.toolMappings).toEqual({});
     });
   });
 
@@ -388,6 +603,24 @@ describe('ToolService', () => {
         toolService.validateToolAccess('tool3', undefined, serverConfig);
       }).toThrow('Tool tool3 is not exposed by server');
     });
+
+    it('should match exposedTools and hiddenTools patterns', () => {
+      const serverConfig = {
+        command: 'test',
+        exposedTools: ['git_*'],
+        hiddenTools: ['/^git_(push|reset)/'],
+      };
+
+      expect(() =>
+        toolService.validateToolAccess('git_status', undefined, serverConfig)
+      ).not.toThrow();
+      expect(() => toolService.validateToolAccess('git_push', undefined, serverConfig)).toThrow(
+        'Tool git_push is hidden'
+      );
+      expect(() => toolService.validateToolAccess('gitx', undefined, serverConfig)).toThrow(
+        'Tool gitx is not exposed by server'
+      );
+    });
   });
 
   describe('filterTools', () => {
@@ -444,6 +677,36 @@ describe('ToolService', () => {
       expect(result[0].name).toBe('tool1');
       expect(result[1].name).toBe('tool3');
     });
+
+    it('should filter tools by glob and regular expression patterns', () => {
+      expect(
+        toolService.filterTools(testTools, { command: 'test', hiddenTools: ['tool?'] })
+      ).toEqual([]);
+      expect(
+        toolService
+          .filterTools(testTools, { command: 'test', exposedTools: ['/[13]$/'] })
+          .map((tool) => tool.name)
+      ).toEqual(['tool1', 'tool3']);
+    });
+
+    it('should leave out hidden tools even when they match exposedTools', () => {
+      const serverConfig = {
+        command: 'test',
+        exposedTools: ['git_*'],
+        hiddenTools: ['git_push'],
+      };
+      const gitTools: Tool[] = ['git_status', 'git_push', 'read'].map((name) => ({
+        name,
+        inputSchema: { type: 'object' },
+      }));
+
+      expect(toolService.filterTools(gitTools, serverConfig).map((tool) => tool.name)).toEqual([
+        'git_status',
+      ]);
+      expect(() => toolService.validateToolAccess('git_push', undefined, serverConfig)).toThrow(
+        'Tool git_push is hidden'
+      );
+    });
   });
 
   describe('processToolName', () => {
@@ -480,6 +743,24 @@ describe('ToolService', () => {
     });
   });
 
+  describe('tool name patterns in renames', () => {
+    it('should rename every tool matching the original pattern', () => {
+      const serverConfig = {
+        command: 'test',
+        exposedTools: [{ original: '/^gh_(.*)$/', exposed: 'github_$1' }],
+      };
+      const tools: Tool[] = [
+        { name: 'gh_search', inputSchema: { type: 'object' } },
+        { name: 'other', inputSchema: { type: 'object' } },
+      ];
+
+      expect(toolService.processToolName('gh_search', serverConfig)).toBe('github_search');
+      expect(
+        toolService.exposeTools(tools, 'github', serverConfig).map(({ tool }) => tool.name)
+      ).toEqual(['github_search']);
+    });
+  });
+
   describe('prefixToolDescription', () => {
     it('should add client name prefix to tool description', () => {
       const tool: Tool = {
@@ -495,164 +776,4 @@ describe('ToolService', () => {
       expect(result.inputSchema).toBe(tool.inputSchema); // Schema should remain unchanged
     });
   });
-
-  describe('applyToolNameMapping', () => {
-    const testTools: Tool[] = [
-      { name: 'tool1', description: 'Tool 1', inputSchema: { type: 'object' } },
-      { name: 'tool2', description: 'Tool 2', inputSchema: { type: 'object' } },
-      { name: 'tool3', description: 'Tool 3', inputSchema: { type: 'object' } },
-    ];
-
-    it('should return tools unchanged when serverConfig is undefined', () => {
-      const result = toolService.applyToolNameMapping(testTools);
-      expect(result).toEqual(testTools);
-    });
-
-    it('should return tools unchanged when exposedTools is undefined', () => {
-      const serverConfig = {
-        command: 'test',
-      };
-
-      const result = toolService.applyToolNameMapping(testTools, serverConfig);
-      expect(result).toEqual(testTools);
-    });
-
-    it('should return tools unchanged when tools array is empty', () => {
-      const serverConfig = {
-        command: 'test',
-        exposedTools: [{ original: 'tool1', exposed: 'renamedTool1' }],
-      };
-
-      const result = toolService.applyToolNameMapping([], serverConfig);
-      expect(result).toEqual([]);
-    });
-
-    it('should apply name mapping when tool has mapping configuration', () => {
-      const serverConfig = {
-        command: 'test',
-        exposedTools: [
-          { original: 'tool1', exposed: 'renamedTool1' },
-          'tool2', // no mapping
-          { original: 'tool3', exposed: 'renamedTool3' },
-        ],
-      };
-
-      const result = toolService.applyToolNameMapping(testTools, serverConfig);
-
-      expect(result).toHaveLength(3);
-      expect(result[0].name).toBe('renamedTool1');
-      expect(result[0].description).toBe('Tool 1'); // Description unchanged
-      expect(result[1].name).toBe('tool2'); // No mapping, unchanged
-      expect(result[2].name).toBe('renamedTool3');
-    });
-
-    it('should not apply mapping when tool is not in exposedTools', () => {
-      const serverConfig = {
-        command: 'test',
-        exposedTools: [{ original: 'otherTool', exposed: 'renamedOtherTool' }, 'tool2'],
-      };
-
-      const result = toolService.applyToolNameMapping(testTools, serverConfig);
-
-      expect(result).toHaveLength(3);
-      expect(result[0].name).toBe('tool1'); // No mapping found, unchanged
-      expect(result[1].name).toBe('tool2'); // No mapping, unchanged
-      expect(result[2].name).toBe('tool3'); // No mapping found, unchanged
-    });
-
-    it('should handle mixed exposedTools with strings and objects', () => {
-      const serverConfig = {
-        command: 'test',
-        exposedTools: [
-          'tool1', // string format, no mapping
-          { original: 'tool2', exposed: 'renamedTool2' }, // object format, with mapping
-          'tool3', // string format, no mapping
-        ],
-      };
-
-      const result = toolService.applyToolNameMapping(testTools, serverConfig);
-
-      expect(result).toHaveLength(3);
-      expect(result[0].name).toBe('tool1'); // String format, no mapping
-      expect(result[1].name).toBe('renamedTool2'); // Object format, mapped
-      expect(result[2].name).toBe('tool3'); // String format, no mapping
-    });
-  });
-
-  describe('isToolAllowed', () => {
-    it('should return true when server config is undefined', () => {
-      const serverConfigs = {};
-
-      const result = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-
-      expect(result).toBe(true);
-    });
-
-    it('should return true when tool is in exposedTools', () => {
-      const serverConfigs = {
-        testClient: {
-          command: 'test',
-          exposedTools: ['tool1', 'tool2'],
-        },
-      };
-
-      const result = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-
-      expect(result).toBe(true);
-    });
-
-    it('should return false when tool is not in exposedTools', () => {
-      const serverConfigs = {
-        testClient: {
-          command: 'test',
-          exposedTools: ['tool2', 'tool3'],
-        },
-      };
-
-      const result = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-
-      expect(result).toBe(false);
-    });
-
-    it('should return false when tool is in hiddenTools', () => {
-      const serverConfigs = {
-        testClient: {
-          command: 'test',
-          hiddenTools: ['tool1'],
-        },
-      };
-
-      const result = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-
-      expect(result).toBe(false);
-    });
-
-    it('should return true when tool is not in hiddenTools', () => {
-      const serverConfigs = {
-        testClient: {
-          command: 'test',
-          hiddenTools: ['tool2', 'tool3'],
-        },
-      };
-
-      const result = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-
-      expect(result).toBe(true);
-    });
-
-    it('should handle exposedTools with object format', () => {
-      const serverConfigs = {
-        testClient: {
-          command: 'test',
-          exposedTools: [{ original: 'tool1', exposed: 'renamedTool1' }, 'tool2'],
-        },
-      };
-
-      const resultOriginal = toolService.isToolAllowed('tool1', 'testClient', serverConfigs);
-      expect(resultOriginal).toBe(true);
-
-      const resultUnknown = toolService.isToolAllowed('tool3', 'testClient', serverConfigs);
-      expect(resultUnknown).toBe(false);
-    });
-  });
 });
@@ -1,11 +1,27 @@
 import { ConnectedClient } from '../client.js';
 import {
+  CallToolResult,
   CompatibilityCallToolResultSchema,
   ListToolsResultSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { ServerConfig } from '../config.js';
-import { clientMaps } from '../mappers/client-maps.js';
+import { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { InputSchemaPatch, ServerConfig, ToolMapping, ToolNamespace } from '../config.js';
+import { serverStatusService } from './server-status-service.js';
+import { metricsService } from './metrics-service.js';
+import { toolCatalogService } from './tool-catalog-service.js';
+import { fetchAllPages } from '../utils/pagination-utils.js';
+import { namespaceToolName, RoutedTool } from '../utils/tool-conflict-utils.js';
+import {
+  buildArgumentErrorResult,
+  describeArgumentErrors,
+  validateToolArguments,
+} from '../utils/argument-validation-utils.js';
+import {
+  findToolMapping,
+  matchesAnyToolPattern,
+  renameByToolPatterns,
+} from '../utils/tool-pattern-utils.js';
 import {
   logServerToolRequest,
   logServerToolResponse,
@@ -14,74 +30,244 @@ import {
 
 export class ToolService {
   /**
-   * Fetch tools from a client
+   * Fetch every tool a client offers, with the server name prefixed to their
+   * descriptions and the overrides of their exposedTools mappings applied
+   * @throws When the client fails to list its tools
    */
   async fetchToolsFromClient(
     connectedClient: ConnectedClient,
-    serverConfig?: ServerConfig,
     meta?: Record<string, unknown>,
-    options?: { timeout: number }
+    options?: { timeout: number },
+    serverConfig?: ServerConfig
   ): Promise<Tool[]> {
-    try {
-      // Request tools from the client
-      const listRequest = {
-        method: 'tools/list' as const,
-        params: {
-          _meta: meta,
-        },
+    // Request every page of tools from the client
+    const tools = await fetchAllPages(
+      'tools',
+      (cursor) =>
+        connectedClient.client.request(
+          {
+            method: 'tools/list' as const,
+            params: cursor === undefined ? { _meta: meta } : { cursor, _meta: meta },
+          },
+          ListToolsResultSchema,
+          options
+        ),
+      `tools from ${connectedClient.name}`
+    );
+
+    // Add server name prefix to description and apply the configured overrides
+    return tools.map((tool) => this.applyToolOverrides(tool, connectedClient.name, serverConfig));
+  }
+
+  /**
+   * Applies the description, inputSchema and annotations overrides of a tool's
+   * exposedTools mapping. The description gets the server name prefix unless
+   * the mapping replaces it.
+   */
+  applyToolOverrides(tool: Tool, clientName: string, serverConfig?: ServerConfig): Tool {
+    const mapping = serverConfig?.exposedTools
+      ? findToolMapping(tool.name, serverConfig.exposedTools)
+      : undefined;
+    if (!mapping) {
+      return this.prefixToolDescription(tool, clientName);
+    }
+
+    return {
+      ...tool,
+      description: this.describeTool(tool, clientName, mapping),
+      inputSchema: this.hideConfiguredArgs(
+        this.patchInputSchema(tool.inputSchema, mapping.inputSchema),
+        mapping
+      ),
+      ...(mapping.annotations && { annotations: { ...tool.annotations, ...mapping.annotations } }),
+    };
+  }
+
+  /**
+   * Combines the description of a mapping with the backend's description
+   */
+  private describeTool(tool: Tool, clientName: string, mapping: ToolMapping): string {
+    const { description, descriptionMode = 'replace' } = mapping;
+    if (description === undefined) {
+      return `[${clientName}] ${tool.description}`;
+    }
+    if (descriptionMode === 'replace') {
+      return description;
+    }
+
+    const parts =
+      descriptionMode === 'prepend'
+        ? [description, tool.description]
+        : [tool.description, description];
+    return `[${clientName}] ${parts.filter(Boolean).join('\n\n')}`;
+  }
+
+  /**
+   * Removes fixed arguments from an input schema, and makes arguments with a
+   * default optional and documents their default
+   */
+  private hideConfiguredArgs(
+    inputSchema: Tool['inputSchema'],
+    mapping: ToolMapping
+  ): Tool['inputSchema'] {
+    const { fixedArgs = {}, defaultArgs = {} } = mapping;
+    if (Object.keys(fixedArgs).length === 0 && Object.keys(defaultArgs).length === 0) {
+      return inputSchema;
+    }
+
+    const patched = this.patchInputSchema(inputSchema, { remove: Object.keys(fixedArgs) });
+    const properties = Object.fromEntries(
+      Object.entries(patched.properties ?? {}).map(([name, schema]) =>
+        name in defaultArgs ? [name, { ...schema, default: defaultArgs[name] }] : [name, schema]
+      )
+    );
+    const required = patched.required?.filter((name) => !(name in defaultArgs));
+
+    return { ...patched, properties, ...(required && { required }) };
+  }
+
+  /**
+   * Removes and overrides properties of a tool's input schema
+   */
+  patchInputSchema(
+    inputSchema: Tool['inputSchema'],
+    patch?: InputSchemaPatch
+  ): Tool['inputSchema'] {
+    if (!patch) {
+      return inputSchema;
+    }
+
+    const removed = new Set(patch.remove);
+    const properties = Object.fromEntries(
+      Object.entries(inputSchema.properties ?? {}).filter(([name]) => !removed.has(name))
+    );
+    const required = inputSchema.required?.filter((name) => !removed.has(name));
+
+    return {
+      ...inputSchema,
+      properties: { ...properties, ...patch.properties },
+      ...(required && { required }),
+    };
+  }
+
+  /**
+   * Gets the tools of a client that the hub exposes, under their exposed names:
+   * filtered and renamed by exposedTools/hiddenTools, then namespaced
+   * @param defaultNamespace The top-level toolNamespace, for servers without their own
+   */
+  exposeTools(
+    tools: Tool[],
+    serverName: string,
+    serverConfig?: ServerConfig,
+    defaultNamespace?: ToolNamespace
+  ): RoutedTool[] {
+    const prefix = this.getToolPrefix(serverName, serverConfig, defaultNamespace);
+    return this.filterTools(tools, serverConfig).map((tool) => {
+      const exposedName = serverConfig ? this.processToolName(tool.name, serverConfig) : tool.name;
+      return {
+        tool: { ...tool, name: namespaceToolName(exposedName, prefix) },
+        originalName: tool.name,
       };
-      const response = await connectedClient.client.request(
-        listRequest,
-        ListToolsResultSchema,
-        options
-      );
+    });
+  }
 
-      // Check if tools were returned and ensure it's an array
-      const toolsResponse = Array.isArray(response.tools) ? response.tools : [];
-      if (toolsResponse.length === 0) {
-        return [];
+  /**
+   * Gets the prefix the tools of a server are exposed with, if any
+   * @param defaultNamespace The top-level toolNamespace, for servers without their own
+   */
+  getToolPrefix(
+    serverName: string,
+    serverConfig?: ServerConfig,
+    defaultNamespace?: ToolNamespace
+  ): string | undefined {
+    const namespace = serverConfig?.toolNamespace ?? defaultNamespace ?? 'none';
+    if (namespace === 'none') {
+      return undefined;
+    }
+    return namespace === 'server' ? serverName : namespace.prefix;
+  }
+
+  /**
+   * Adds the routes to a client's exposed tools to a routing table and records
+   * the exposed-to-original name mappings on the client
+   * @param routes The routing table being built, keyed by exposed tool name
+   */
+  addToolRoutes(
+    routes: Map<string, ConnectedClient>,
+    tools: RoutedTool[],
+    connectedClient: ConnectedClient
+  ): void {
+    const toolMappings: Record<string, string> = {};
+
+    for (const { tool, originalName } of tools) {
+      if (tool.name !== originalName) {
+        toolMappings[tool.name] = originalName;
       }
+      routes.set(tool.name, connectedClient);
+    }
 
-      const processedTools = toolsResponse.map((tool) => {
-        // Add server name prefix to description
-        const processedTool = this.prefixToolDescription(tool, connectedClient.name);
-
-        // Handle tool name mapping from exposedTools if configured
-        let hasExposedMapping = false;
-        if (serverConfig?.exposedTools) {
-          // Find any tool mapping in exposedTools
-          const toolMapping = serverConfig.exposedTools.find(
-            (exposedTool) => typeof exposedTool !== 'string' && exposedTool.original === tool.name
-          );
-
-          if (toolMapping && typeof toolMapping !== 'string') {
-            const exposedName = toolMapping.exposed;
-            hasExposedMapping = true;
-
-            // Store original to exposed name mapping in client
-            if (!connectedClient.client.toolMappings) {
-              connectedClient.client.toolMappings = {};
-            }
-            connectedClient.client.toolMappings[exposedName] = tool.name;
-
-            // Map only the exposed name to the client
-            clientMaps.mapToolToClient(exposedName, connectedClient);
-          }
-        }
-
-        // If no exposed mapping exists, map the original tool name to the client
-        if (!hasExposedMapping) {
-          clientMaps.mapToolToClient(processedTool.name, connectedClient);
-        }
-
-        return processedTool;
-      });
-
-      return processedTools;
-    } catch (error) {
-      console.error(`Error fetching tools from ${connectedClient.name}:`, error);
-      return [];
+    connectedClient.client.toolMappings = toolMappings;
+  }
+
+  /**
+   * Applies the fixedArgs and defaultArgs of a tool's exposedTools mapping to the arguments of a call
+   * @param originalToolName The name the backend knows the tool by
+   * @throws When the call sets a fixed argument
+   */
+  applyConfiguredArgs(
+    toolName: string,
+    originalToolName: string,
+    args: Record<string, unknown>,
+    serverConfig?: ServerConfig
+  ): Record<string, unknown> {
+    const mapping = serverConfig?.exposedTools
+      ? findToolMapping(originalToolName, serverConfig.exposedTools)
+      : undefined;
+    if (!mapping?.fixedArgs && !mapping?.defaultArgs) {
+      return args;
+    }
+
+    const overridden = Object.keys(mapping.fixedArgs ?? {}).filter((name) => name in args);
+    if (overridden.length > 0) {
+      throw new Error(
+        `Tool ${toolName} does not accept the fixed arguments ${overridden.join(', ')}`
+      );
     }
+
+    return { ...mapping.defaultArgs, ...args, ...mapping.fixedArgs };
+  }
+
+  /**
+   * Validates the arguments of a call against the cached inputSchema of the tool,
+   * as the server's validateArgs asks. Tools not in the tool catalog are not validated.
+   * @param originalToolName The name the backend knows the tool by
+   * @returns An error result when the arguments are invalid and validation is enforced
+   */
+  checkToolArguments(
+    toolName: string,
+    originalToolName: string,
+    args: Record<string, unknown>,
+    connectedClient: ConnectedClient,
+    serverConfig?: ServerConfig
+  ): CallToolResult | undefined {
+    const mode = serverConfig?.validateArgs ?? 'off';
+    if (mode === 'off') {
+      return undefined;
+    }
+
+    const tool = toolCatalogService
+      .getTools(connectedClient)
+      ?.find(({ name }) => name === originalToolName);
+    const errors = tool ? validateToolArguments(tool.inputSchema, args) : [];
+    if (errors.length === 0) {
+      return undefined;
+    }
+
+    if (mode === 'warn') {
+      console.warn(`Invalid arguments for tool ${toolName}: ${describeArgumentErrors(errors)}`);
+      return undefined;
+    }
+    return buildArgumentErrorResult(toolName, errors);
   }
 
   /**
@@ -93,7 +279,7 @@ export class ToolService {
     client: ConnectedClient,
     meta?: Record<string, unknown>,
     originalToolName?: string,
-    options?: { timeout: number }
+    options?: RequestOptions
   ) {
     try {
       // The name to use when calling the tool (may be different from what the user specified)
@@ -113,14 +299,14 @@ export class ToolService {
       logServerToolRequest(toolName, client.name, request);
 
       // Call the tool
-      const result = await client.client.request(
-        request,
-        CompatibilityCallToolResultSchema,
-        options
+      const result = await metricsService.observe(
+        { server: client.name, method: 'tools/call', name: callName },
+        () => client.client.request(request, CompatibilityCallToolResultSchema, options)
       );
 
       // Log the tool response
       logServerToolResponse(toolName, result);
+      serverStatusService.recordSuccessfulCall(client.name);
 
       return result;
     } catch (error) {
@@ -145,17 +331,13 @@ export class ToolService {
 
     // Check exposedTools
     if (serverConfig.exposedTools) {
-      const exposedTools = serverConfig.exposedTools.map((tool) =>
-        typeof tool === 'string' ? tool : tool.original
-      );
-
-      if (!exposedTools.includes(nameToCheck)) {
+      if (!matchesAnyToolPattern(nameToCheck, serverConfig.exposedTools)) {
         throw new Error(`Tool ${toolName} is not exposed by server`);
       }
     }
 
     // Check hiddenTools
-    if (serverConfig.hiddenTools && serverConfig.hiddenTools.includes(nameToCheck)) {
+    if (serverConfig.hiddenTools && matchesAnyToolPattern(nameToCheck, serverConfig.hiddenTools)) {
       throw new Error(`Tool ${toolName} is hidden`);
     }
   }
@@ -166,21 +348,20 @@ export class ToolService {
     if (!tools) return [];
     if (!serverConfig) return tools;
 
-    // If exposedTools is defined, only include tools in that list
-    if (serverConfig.exposedTools) {
-      const exposedToolNames = serverConfig.exposedTools.map((tool) =>
-        typeof tool === 'string' ? tool : tool.original
-      );
-      return tools.filter((tool) => exposedToolNames.includes(tool.name));
-    }
+    return tools.filter((tool) => this.isToolExposed(tool.name, serverConfig));
+  }
 
-    // If hiddenTools is defined, exclude tools in that list
-    if (serverConfig.hiddenTools) {
-      return tools.filter((tool) => !serverConfig.hiddenTools?.includes(tool.name));
+  /**
+   * Checks whether a server exposes a tool: it matches exposedTools, if set,
+   * and does not match hiddenTools. Listing and calling tools both follow this rule.
+   * @param toolName The name the backend knows the tool by
+   */
+  private isToolExposed(toolName: string, serverConfig: ServerConfig): boolean {
+    const { exposedTools, hiddenTools } = serverConfig;
+    if (exposedTools && !matchesAnyToolPattern(toolName, exposedTools)) {
+      return false;
     }
-
-    // If neither filter is applied, return all tools
-    return tools;
+    return !hiddenTools || !matchesAnyToolPattern(toolName, hiddenTools);
   }
 
   /**
@@ -189,18 +370,8 @@ export class ToolService {
   processToolName(toolName: string, serverConfig: ServerConfig): string {
     if (!serverConfig.exposedTools) return toolName;
 
-    // Check if this tool is configured for renaming
-    const toolConfig = serverConfig.exposedTools.find(
-      (tool) => typeof tool !== 'string' && tool.original === toolName
-    );
-
-    // If found and has an 'exposed' property, return the exposed name
-    if (toolConfig && typeof toolConfig !== 'string') {
-      return toolConfig.exposed;
-    }
-
-    // Otherwise return the original name
-    return toolName;
+    // Use the exposed name of the first matching rename, otherwise the original name
+    return renameByToolPatterns(toolName, serverConfig.exposedTools) ?? toolName;
   }
 
   /**
@@ -212,65 +383,6 @@ export class ToolService {
       description: `[${clientName}] ${tool.description}`,
     };
   }
-
-  /**
-   * Apply tool name mapping based on server configuration
-   */
-  applyToolNameMapping(tools: Tool[], serverConfig?: ServerConfig): Tool[] {
-    if (!tools || !serverConfig?.exposedTools) {
-      return tools;
-    }
-
-    return tools.map((tool) => {
-      // Find if this tool has a name mapping
-      const toolMapping = serverConfig.exposedTools?.find(
-        (exposedTool) => typeof exposedTool !== 'string' && exposedTool.original === tool.name
-      );
-
-      // If mapping exists, return tool with exposed name
-      if (toolMapping && typeof toolMapping !== 'string') {
-        return {
-          ...tool,
-          name: toolMapping.exposed,
-        };
-      }
-
-      // Otherwise return tool as-is
-      return tool;
-    });
-  }
-
-  /**
-   * Check if a tool is allowed based on server configuration
-   */
-  isToolAllowed(
-    toolName: string,
-    clientName: string,
-    serverConfigs: Record<string, ServerConfig>
-  ): boolean {
-    const serverConfig = serverConfigs[clientName];
-    if (!serverConfig) return true; // If no config, allow by default
-
-    // Check exposed tools
-    if (serverConfig.exposedTools) {
-      const exposedToolNames = serverConfig.exposedTools.map((tool) =>
-        typeof tool === 'string' ? tool : tool.original
-      );
-      // If tool is specifically exposed, allow it regardless of hiddenTools
-      if (exposedToolNames.includes(toolName)) {
-        return true;
-      }
-      // If exposedTools is defined but tool is not in it, deny access
-      return false;
-    }
-
-    // Check hidden tools (only if exposedTools is not defined)
-    if (serverConfig.hiddenTools && serverConfig.hiddenTools.includes(toolName)) {
-      return false;
-    }
-
-    return true;
-  }
 }
 
 // Export a singleton instance
@@ -3,19 +3,38 @@
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import express from 'express';
 import cors from 'cors';
-import { createServer } from './mcp-proxy.js';
-import { loadConfig } from './config.js';
+import {
+  initClients,
+  createProxyServer,
+  createBackendCleanup,
+  getCurrentConfig,
+} from './mcp-proxy.js';
+import { createHealthRouter, createStatusRouter } from './core/health-endpoints.js';
+import { createMetricsRouter } from './core/metrics-endpoint.js';
+import { metricsService } from './services/metrics-service.js';
 import 'dotenv/config';
 
 const app = express();
 
 app.use(cors());
 
+interface Session {
+  server: ReturnType<typeof createProxyServer>;
+  transport: SSEServerTransport;
+}
+
 async function main() {
-  const config = await loadConfig();
-  const { server, cleanup } = await createServer();
+  // Initialize backend client connections once at startup.
+  // Each SSE connection gets its own Server instance but shares these connections.
+  const config = await initClients();
+  const backendCleanup = createBackendCleanup();
+
+  // Map to store sessions by the session ID the transport announces to the client.
+  const sessions = new Map<string, Session>();
+  metricsService.trackActiveSessions(() => sessions.size);
 
-  let transport: SSEServerTransport;
+  // Liveness and readiness probes are not authenticated
+  app.use(createHealthRouter(getCurrentConfig));
 
   // Bearer token auth middleware
   const authToken = config.serverTransport?.auth?.token || process.env.MCP_PROXY_AUTH_TOKEN;
@@ -31,36 +50,63 @@ async function main() {
     console.log('Bearer token authentication enabled');
   }
 
+  app.use(createStatusRouter(getCurrentConfig));
+  app.use(createMetricsRouter());
+
   app.get('/sse', async (req, res) => {
     console.log('Received connection');
-    transport = new SSEServerTransport('/message', res);
-    await server.connect(transport);
+    const server = createProxyServer();
+    const transport = new SSEServerTransport('/message', res);
+    const sessionId = transport.sessionId;
 
     server.onerror = (err) => {
-      console.error(`Server onerror: ${err.stack}`);
+      console.error(`Server onerror (session ${sessionId}): ${err.stack}`);
     };
 
-    server.onclose = async () => {
-      console.log('Server onclose');
-      if (process.env.KEEP_SERVER_OPEN !== '1') {
-        await cleanup();
-        await server.close();
-        process.exit(0);
-      }
+    // Closing the transport also closes the server, which leaves the session registry.
+    // Backend clients are shared and stay connected.
+    transport.onclose = () => {
+      console.log(`Session closed: ${sessionId}`);
+      sessions.delete(sessionId);
     };
+
+    sessions.set(sessionId, { server, transport });
+    await server.connect(transport);
   });
 
   app.post('/message', async (req, res) => {
-    console.log('Received message');
-    await transport.handlePostMessage(req, res);
+    const sessionId = req.query.sessionId;
+    const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      res.status(400).json({ error: 'Invalid or missing session ID' });
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
   });
 
   const PORT = config.serverTransport?.port || Number(process.env.PORT) || 3006;
   const HOST = config.serverTransport?.host || process.env.HOST || '0.0.0.0';
 
-  app.listen(PORT, HOST, () => {
+  const httpServer = app.listen(PORT, HOST, () => {
     console.log(`SSE server running at http://${HOST}:${PORT}/sse`);
   });
+
+  async function exit() {
+    console.log('Shutting down...');
+    // Close all active sessions
+    for (const session of Array.from(sessions.values())) {
+      await session.transport.close().catch(() => {});
+    }
+    sessions.clear();
+    // Close backend client connections
+    await backendCleanup();
+    httpServer.close();
+    process.exit(0);
+  }
+
+  process.on('SIGINT', exit);
+  process.on('SIGTERM', exit);
 }
 
 main().catch((error) => {
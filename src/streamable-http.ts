@@ -2,10 +2,20 @@
 
 import { randomUUID } from 'crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 import cors from 'cors';
-import { initClients, createProxyServer, createBackendCleanup } from './mcp-proxy.js';
-import { loadConfig } from './config.js';
+import {
+  initClients,
+  createProxyServer,
+  createBackendCleanup,
+  getCurrentConfig,
+} from './mcp-proxy.js';
+import { createHealthRouter, createStatusRouter } from './core/health-endpoints.js';
+import { createMetricsRouter } from './core/metrics-endpoint.js';
+import { metricsService } from './services/metrics-service.js';
+import { HttpSessionStore } from './core/http-session-store.js';
+import { createEventStore, scopeEventStore } from './core/event-store.js';
 import 'dotenv/config';
 
 const app = express();
@@ -17,16 +27,30 @@ interface Session {
   transport: StreamableHTTPServerTransport;
 }
 
-async function main() {
-  const config = await loadConfig();
+// Sessions without requests for this long are closed unless configured otherwise
+const DEFAULT_SESSION_IDLE_TIMEOUT_SEC = 30 * 60;
 
+async function main() {
   // Initialize backend client connections once at startup.
   // Each HTTP session gets its own Server instance but shares these connections.
-  await initClients();
+  const config = await initClients();
   const backendCleanup = createBackendCleanup();
 
-  // Map to store sessions by session ID for stateful mode.
-  const sessions = new Map<string, Session>();
+  // Sessions by session ID for stateful mode.
+  // Closing a transport also closes its server, which leaves the session registry.
+  const sessions = new HttpSessionStore<Session>(
+    {
+      idleTimeoutMs:
+        (config.serverTransport?.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT_SEC) * 1000,
+      maxSessions: config.serverTransport?.maxSessions ?? 0,
+      evictionPolicy: config.serverTransport?.sessionEviction ?? 'lru',
+    },
+    (session) => session.transport.close()
+  );
+  metricsService.trackActiveSessions(() => sessions.size);
+
+  // Liveness and readiness probes are not authenticated
+  app.use(createHealthRouter(getCurrentConfig));
 
   // Bearer token auth middleware
   const authToken = config.serverTransport?.auth?.token || process.env.MCP_PROXY_AUTH_TOKEN;
@@ -42,6 +66,9 @@ async function main() {
     console.log('Bearer token authentication enabled');
   }
 
+  app.use(createStatusRouter(getCurrentConfig));
+  app.use(createMetricsRouter());
+
   const mcpPath = config.serverTransport?.path || process.env.MCP_PROXY_PATH || '/mcp';
 
   function getSessionId(req: express.Request): string | undefined {
@@ -49,70 +76,130 @@ async function main() {
     return typeof value === 'string' ? value : undefined;
   }
 
-  // Handle POST requests for client-to-server communication
-  app.post(mcpPath, async (req, res) => {
-    const sessionId = getSessionId(req);
-
-    // Check for existing session
-    if (sessionId && sessions.has(sessionId)) {
-      const session = sessions.get(sessionId)!;
-      await session.transport.handleRequest(req, res);
-      return;
-    }
-
-    // New session - create a fresh server instance and transport.
-    // The server shares the same backend client connections.
-    const server = createProxyServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
+  if (config.serverTransport?.stateless) {
+    // Stateless mode: every POST is served by a fresh server and transport, so that
+    // any hub replica behind a load balancer can answer any request.
+    app.post(mcpPath, async (req, res) => {
+      const server = createProxyServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+
+      // Closing the transport also closes the server, which leaves the session registry
+      res.on('close', () => {
+        transport.close().catch(() => {});
+      });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
     });
 
-    transport.onclose = () => {
-      if (transport.sessionId) {
-        const session = sessions.get(transport.sessionId);
-        if (session) {
-          session.server.close().catch(() => {});
-          sessions.delete(transport.sessionId);
+    // Without sessions there is no notification stream to open and nothing to terminate
+    const methodNotAllowed = (_req: express.Request, res: express.Response) => {
+      res.status(405).set('Allow', 'POST').json({ error: 'Method not allowed in stateless mode' });
+    };
+    app.get(mcpPath, methodNotAllowed);
+    app.delete(mcpPath, methodNotAllowed);
+
+    console.log('Stateless mode enabled');
+  } else {
+    // Events are kept so that clients can resume a dropped stream with Last-Event-ID
+    const eventStore = await createEventStore(config.serverTransport?.eventStore);
+
+    sessions.startSweeper();
+
+    // Handle POST requests for client-to-server communication.
+    // The body is parsed here to tell initialize requests apart, with the SDK's size limit.
+    app.post(mcpPath, express.json({ limit: '4mb' }), async (req, res) => {
+      const sessionId = getSessionId(req);
+
+      // Check for existing session
+      if (sessionId) {
+        const existing = sessions.get(sessionId);
+        if (!existing) {
+          res.status(404).json({ error: 'Session not found' });
+          return;
         }
+        res.on('close', sessions.beginRequest(sessionId));
+        await existing.transport.handleRequest(req, res, req.body);
+        return;
       }
-    };
 
-    await server.connect(transport);
+      // Only an initialize request starts a session
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json({ error: 'Missing session ID' });
+        return;
+      }
 
-    await transport.handleRequest(req, res);
+      if (!sessions.canAccept()) {
+        console.warn(`Rejecting new session: maxSessions (${sessions.size}) reached`);
+        res.status(503).json({ error: 'Too many sessions' });
+        return;
+      }
 
-    // Store session AFTER handleRequest, since sessionId is set during request processing.
-    if (transport.sessionId) {
-      sessions.set(transport.sessionId, { server, transport });
-    }
-  });
+      // New session - create a fresh server instance and transport.
+      // The server shares the same backend client connections.
+      const server = createProxyServer();
+      const newSessionId = randomUUID();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        eventStore: eventStore && scopeEventStore(eventStore, newSessionId),
+        onsessioninitialized: (id) => {
+          sessions.add(id, { server, transport });
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
 
-  // Handle GET requests for server-to-client notifications via SSE
-  app.get(mcpPath, async (req, res) => {
-    const sessionId = getSessionId(req);
-    if (!sessionId || !sessions.has(sessionId)) {
-      res.status(400).json({ error: 'Invalid or missing session ID' });
-      return;
-    }
+      await server.connect(transport);
 
-    const session = sessions.get(sessionId)!;
-    await session.transport.handleRequest(req, res);
-  });
+      await transport.handleRequest(req, res, req.body);
 
-  // Handle DELETE requests for session termination
-  app.delete(mcpPath, async (req, res) => {
-    const sessionId = getSessionId(req);
-    if (!sessionId || !sessions.has(sessionId)) {
-      res.status(400).json({ error: 'Invalid or missing session ID' });
-      return;
-    }
-
-    const session = sessions.get(sessionId)!;
-    await session.transport.close();
-    await session.server.close().catch(() => {});
-    sessions.delete(sessionId);
-    res.status(200).json({ message: 'Session terminated' });
-  });
+      // A rejected initialize request starts no session; closing the transport
+      // also takes its server out of the session registry
+      if (!transport.sessionId) {
+        await transport.close();
+      }
+    });
+
+    // Handle GET requests for server-to-client notifications via SSE
+    app.get(mcpPath, async (req, res) => {
+      const sessionId = getSessionId(req);
+      if (!sessionId) {
+        res.status(400).json({ error: 'Missing session ID' });
+        return;
+      }
+      const session = sessions.get(sessionId);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      // An open notification stream keeps the session from going idle
+      res.on('close', sessions.beginRequest(sessionId));
+      await session.transport.handleRequest(req, res);
+    });
+
+    // Handle DELETE requests for session termination
+    app.delete(mcpPath, async (req, res) => {
+      const sessionId = getSessionId(req);
+      if (!sessionId) {
+        res.status(400).json({ error: 'Missing session ID' });
+        return;
+      }
+      if (!sessions.get(sessionId)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+
+      await sessions.close(sessionId, 'deleted');
+      res.status(200).json({ message: 'Session terminated' });
+    });
+  }
 
   const PORT = config.serverTransport?.port || Number(process.env.PORT) || 3006;
   const HOST = config.serverTransport?.host || process.env.HOST || '0.0.0.0';
@@ -124,11 +211,8 @@ async function main() {
   async function exit() {
     console.log('Shutting down...');
     // Close all active sessions
-    for (const [, session] of sessions) {
-      await session.transport.close().catch(() => {});
-      await session.server.close().catch(() => {});
-    }
-    sessions.clear();
+    sessions.stopSweeper();
+    await sessions.closeAll('shutdown');
     // Close backend client connections
     await backendCleanup();
     httpServer.close();
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  ARGUMENT_ERRORS_META_KEY,
+  buildArgumentErrorResult,
+  describeArgumentErrors,
+  validateToolArguments,
+} from './argument-validation-utils.js';
+
+const schema: Tool['inputSchema'] = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    options: {
+      type: 'object',
+      properties: { limit: { type: 'number' } },
+      additionalProperties: false,
+    },
+  },
+  required: ['query'],
+};
+
+describe('argument-validation-utils', () => {
+  it('should accept valid arguments', () => {
+    expect(validateToolArguments(schema, { query: 'bug', options: { limit: 5 } })).toEqual([]);
+  });
+
+  it('should point at invalid, missing and unexpected arguments', () => {
+    expect(validateToolArguments(schema, { options: { limit: 'five', 'a/b': 1 } })).toEqual([
+      { pointer: '/query', message: "must have required property 'query'" },
+      { pointer: '/options/a~1b', message: 'must NOT have additional properties' },
+      { pointer: '/options/limit', message: 'must be number' },
+    ]);
+  });
+
+  it('should validate draft 2020-12 keywords when the schema declares that draft', () => {
+    const tuple: Tool['inputSchema'] = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }] },
+      },
+    };
+
+    expect(validateToolArguments(tuple, { point: [1, 'two'] })).toEqual([
+      { pointer: '/point/1', message: 'must be number' },
+    ]);
+  });
+
+  it('should validate formats', () => {
+    const withFormat: Tool['inputSchema'] = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' } },
+    };
+
+    expect(validateToolArguments(withFormat, { email: 'nobody' })).toEqual([
+      { pointer: '/email', message: 'must match format "email"' },
+    ]);
+  });
+
+  it('should accept any arguments when the schema does not compile', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: Tool['inputSchema'] = { type: 'object', properties: { a: { $ref: '#/nope' } } };
+
+    expect(validateToolArguments(broken, { a: 1 })).toEqual([]);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    warnSpy.mockRestore();
+  });
+
+  it('should build an error result listing the errors', () => {
+    const errors = [
+      { pointer: '/limit', message: 'must be number' },
+      { pointer: '', message: 'must be object' },
+    ];
+
+    expect(describeArgumentErrors(errors)).toBe(
+      '/limit must be number; (arguments) must be object'
+    );
+    expect(buildArgumentErrorResult('search', errors)).toEqual({
+      content: [
+        {
+          type: 'text',
+          text: 'Invalid arguments for tool search: /limit must be number; (arguments) must be object',
+        },
+      ],
+      isError: true,
+      _meta: { [ARGUMENT_ERRORS_META_KEY]: errors },
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const ARGUMENT_ERRORS_META_KEY = 'mcp-proxy-hub/argumentErrors';
+
+/**
+ * An argument that fails the tool's inputSchema
+ */
+export type ArgumentError = {
+  /** JSON pointer to the failing argument, e.g. `/options/limit`; empty for the arguments as a whole */
+  pointer: string;
+  message: string;
+};
+
+const DRAFT_2020_12 = /^https?:\/\/json-schema\.org\/draft\/2020-12\/schema/;
+
+const ajvOptions = { strict: false, allErrors: true, validateSchema: false };
+const draft07 = new Ajv(ajvOptions);
+const draft2020 = new Ajv2020(ajvOptions);
+addFormats(draft07);
+addFormats(draft2020);
+
+// Compiled per schema object; null when the schema does not compile
+const validators = new WeakMap<object, ValidateFunction | null>();
+
+const escapePointer = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Compiles an input schema as draft 2020-12 when its `$schema` says so, and as
+ * draft-07 otherwise
+ */
+function getValidator(inputSchema: Tool['inputSchema']): ValidateFunction | null {
+  let validate = validators.get(inputSchema);
+  if (validate !== undefined) {
+    return validate;
+  }
+
+  const ajv =
+    typeof inputSchema.$schema === 'string' && DRAFT_2020_12.test(inputSchema.$schema)
+      ? draft2020
+      : draft07;
+  try {
+    validate = ajv.compile(inputSchema);
+  } catch (error) {
+    console.warn(
+      'Arguments are not validated against an inputSchema that does not compile:',
+      error
+    );
+    validate = null;
+  }
+  validators.set(inputSchema, validate);
+  return validate;
+}
+
+/**
+ * Points at the property an error is about, for errors reported on the object
+ * holding it, e.g. a missing required property
+ */
+function errorPointer({ instancePath, params }: ErrorObject): string {
+  const property =
+    params.missingProperty ?? params.additionalProperty ?? params.unevaluatedProperty;
+  return typeof property === 'string' ? `${instancePath}/${escapePointer(property)}` : instancePath;
+}
+
+/**
+ * Validates the arguments of a tool call against the tool's inputSchema.
+ * An inputSchema that does not compile accepts any arguments.
+ * @returns The failing arguments; empty when the arguments are valid
+ */
+export function validateToolArguments(
+  inputSchema: Tool['inputSchema'],
+  args: Record<string, unknown>
+): ArgumentError[] {
+  const validate = getValidator(inputSchema);
+  if (!validate || validate(args)) {
+    return [];
+  }
+  return (validate.errors ?? []).map((error) => ({
+    pointer: errorPointer(error),
+    message: error.message ?? `must pass "${error.keyword}"`,
+  }));
+}
+
+/**
+ * Describes argument errors for logs and error results, e.g. "/limit must be number"
+ */
+export function describeArgumentErrors(errors: ArgumentError[]): string {
+  return errors.map(({ pointer, message }) => `${pointer || '(arguments)'} ${message}`).join('; ');
+}
+
+/**
+ * Builds the result of a tool call rejected for invalid arguments; the errors
+ * are also listed under `_meta`
+ */
+export function buildArgumentErrorResult(
+  toolName: string,
+  errors: ArgumentError[]
+): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Invalid arguments for tool ${toolName}: ${describeArgumentErrors(errors)}`,
+      },
+    ],
+    isError: true,
+    _meta: { [ARGUMENT_ERRORS_META_KEY]: errors },
+  };
+}
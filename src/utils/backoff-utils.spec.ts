@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoffDelay } from './backoff-utils.js';
+
+describe('backoff-utils', () => {
+  describe('computeBackoffDelay', () => {
+    const options = { initialDelayMs: 100, maxDelayMs: 1000, factor: 2, jitter: 0 };
+    const middle = () => 0.5;
+
+    it('should grow exponentially with the attempt number', () => {
+      expect(computeBackoffDelay(0, options, middle)).toBe(100);
+      expect(computeBackoffDelay(1, options, middle)).toBe(200);
+      expect(computeBackoffDelay(3, options, middle)).toBe(800);
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+      expect(computeBackoffDelay(10, options, middle)).toBe(1000);
+    });
+
+    it('should keep a constant delay with a factor of 1', () => {
+      expect(computeBackoffDelay(5, { ...options, factor: 1 }, middle)).toBe(100);
+    });
+
+    it('should spread the delay by the jitter fraction', () => {
+      const jittered = { ...options, jitter: 0.5 };
+      expect(computeBackoffDelay(1, jittered, () => 0)).toBe(100);
+      expect(computeBackoffDelay(1, jittered, () => 0.5)).toBe(200);
+      expect(computeBackoffDelay(1, jittered, () => 0.999999)).toBe(300);
+    });
+
+    it('should not exceed maxDelayMs after jitter', () => {
+      expect(computeBackoffDelay(10, { ...options, jitter: 0.5 }, () => 0.999999)).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+export type BackoffOptions = {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  /** Fraction (0-1) of the delay that is randomized in either direction */
+  jitter: number;
+};
+
+/**
+ * Computes the delay before a retry using exponential backoff with jitter.
+ *
+ * The base delay is `initialDelayMs * factor ^ attempt`, capped at `maxDelayMs`.
+ * With a jitter of `j`, the result is spread uniformly over `base * (1 ± j)`
+ * and capped at `maxDelayMs` again, so that many clients reconnecting to the
+ * same upstream do not retry in lockstep.
+ *
+ * @param attempt Zero-based retry attempt
+ * @param options Backoff parameters
+ * @param random Random source in [0, 1), injectable for tests
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random
+): number {
+  const { initialDelayMs, maxDelayMs, factor, jitter } = options;
+  const base = Math.min(maxDelayMs, initialDelayMs * Math.pow(factor, attempt));
+  const spread = base * jitter * (random() * 2 - 1);
+  return Math.max(0, Math.min(maxDelayMs, Math.round(base + spread)));
+}
+
+/**
+ * Waits for the given number of milliseconds without keeping the process alive
+ */
+export function sleepUnref(ms: number): Promise<void> {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms).unref());
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { diffServerConfigs, isEmptyDiff } from './config-diff.js';
+import { ServerConfigs } from '../config.js';
+
+describe('config-diff', () => {
+  describe('diffServerConfigs', () => {
+    it('should report no changes for identical configs', () => {
+      const configs: ServerConfigs = {
+        a: { command: 'node', args: ['a.js'] },
+        b: { type: 'sse', url: 'http://localhost/sse' },
+      };
+
+      const diff = diffServerConfigs(configs, structuredClone(configs));
+
+      expect(isEmptyDiff(diff)).toBe(true);
+    });
+
+    it('should detect added and removed servers', () => {
+      const diff = diffServerConfigs({ a: { command: 'a' } }, { b: { command: 'b' } });
+
+      expect(diff).toEqual({ added: ['b'], removed: ['a'], restarted: [], updated: [] });
+    });
+
+    it('should treat enabling and disabling a server as adding and removing it', () => {
+      const diff = diffServerConfigs(
+        { a: { command: 'a', enable: false }, b: { command: 'b' } },
+        { a: { command: 'a' }, b: { command: 'b', enable: false } }
+      );
+
+      expect(diff).toEqual({ added: ['a'], removed: ['b'], restarted: [], updated: [] });
+    });
+
+    it('should restart servers whose inherited retry or health check settings change', () => {
+      const servers: ServerConfigs = {
+        a: { command: 'a' },
+        b: { command: 'b', retry: { retries: 5 } },
+        c: { command: 'c', healthCheck: { reconnect: { maxAttempts: 3 } } },
+      };
+
+      const retryDiff = diffServerConfigs(
+        servers,
+        servers,
+        { retry: { retries: 3 } },
+        { retry: { retries: 4 } }
+      );
+      const healthDiff = diffServerConfigs(
+        servers,
+        servers,
+        {},
+        { healthCheck: { reconnect: { maxAttempts: 1 } } }
+      );
+
+      expect(retryDiff.restarted).toEqual(['a', 'c']);
+      expect(healthDiff.restarted).toEqual(['a', 'b']);
+      expect(isEmptyDiff(diffServerConfigs(servers, servers, { retry: {} }, {}))).toBe(true);
+    });
+
+    it('should ignore servers that stay disabled', () => {
+      const diff = diffServerConfigs(
+        { a: { command: 'a', enable: false } },
+        { a: { command: 'changed', enable: false } }
+      );
+
+      expect(isEmptyDiff(diff)).toBe(true);
+    });
+
+    it('should restart servers whose connection settings changed', () => {
+      const diff = diffServerConfigs(
+        {
+          a: { command: 'a', args: ['--old'] },
+          b: { type: 'sse', url: 'http://localhost/sse', headers: { Authorization: 'old' } },
+        },
+        {
+          a: { command: 'a', args: ['--new'] },
+          b: { type: 'sse', url: 'http://localhost/sse', headers: { Authorization: 'new' } },
+        }
+      );
+
+      expect(diff.restarted).toEqual(['a', 'b']);
+      expect(diff.updated).toEqual([]);
+    });
+
+    it('should update without restarting when only proxy-side settings changed', () => {
+      const diff = diffServerConfigs(
+        { a: { command: 'a', hiddenTools: ['x'] } },
+        { a: { command: 'a', hiddenTools: ['x', 'y'], timeout: 10, enable: true } }
+      );
+
+      expect(diff).toEqual({ added: [], removed: [], restarted: [], updated: ['a'] });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { ClientDefaults } from '../client.js';
+import { ServerConfig, ServerConfigs } from '../config.js';
+
+/**
+ * Server config keys that are only read by the proxy when handling requests.
+ * Changing them never requires reconnecting to the backend.
+ */
+const PROXY_ONLY_KEYS = new Set([
+  'exposedTools',
+  'hiddenTools',
+  'toolNamespace',
+  'validateArgs',
+  'envVars',
+  'timeout',
+  'required',
+]);
+
+export type ServerConfigDiff = {
+  /** Servers that are new or newly enabled and must be connected */
+  added: string[];
+  /** Servers that were deleted or disabled and must be disconnected */
+  removed: string[];
+  /** Servers whose connection settings changed and must be reconnected */
+  restarted: string[];
+  /** Servers whose proxy-side settings changed; the connection can be kept */
+  updated: string[];
+};
+
+const isEnabled = (config: ServerConfig | undefined): config is ServerConfig =>
+  config !== undefined && config.enable !== false;
+
+/**
+ * Picks the part of an enabled server config that affects the backend connection,
+ * with the hub-wide retry and health check settings the server falls back to
+ */
+function connectionSettings(
+  config: ServerConfig,
+  defaults: ClientDefaults
+): Record<string, unknown> {
+  return {
+    ...Object.fromEntries(
+      Object.entries(config).filter(([key]) => key !== 'enable' && !PROXY_ONLY_KEYS.has(key))
+    ),
+    retry: { ...defaults.retry, ...config.retry },
+    healthCheck: {
+      ...defaults.healthCheck,
+      ...config.healthCheck,
+      reconnect: { ...defaults.healthCheck?.reconnect, ...config.healthCheck?.reconnect },
+    },
+  };
+}
+
+/**
+ * Compares two sets of server configs and classifies what has to happen to each server.
+ * A server is also restarted when the top-level `retry` or `healthCheck` it falls
+ * back to changes, since its connection keeps the settings it was started with.
+ */
+export function diffServerConfigs(
+  previous: ServerConfigs,
+  next: ServerConfigs,
+  previousDefaults: ClientDefaults = {},
+  nextDefaults: ClientDefaults = {}
+): ServerConfigDiff {
+  const diff: ServerConfigDiff = { added: [], removed: [], restarted: [], updated: [] };
+  const names = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const name of names) {
+    const before = previous[name];
+    const after = next[name];
+
+    if (!isEnabled(before) && !isEnabled(after)) continue;
+
+    if (!isEnabled(before)) {
+      diff.added.push(name);
+    } else if (!isEnabled(after)) {
+      diff.removed.push(name);
+    } else if (
+      !isDeepStrictEqual(
+        connectionSettings(before, previousDefaults),
+        connectionSettings(after, nextDefaults)
+      )
+    ) {
+      diff.restarted.push(name);
+    } else if (!isDeepStrictEqual(before, after)) {
+      diff.updated.push(name);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Returns true when the diff contains no changes
+ */
+export function isEmptyDiff(diff: ServerConfigDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.restarted.length === 0 &&
+    diff.updated.length === 0
+  );
+}
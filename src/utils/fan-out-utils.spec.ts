@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  buildSkippedMeta,
+  fanOut,
+  ignoreMethodNotFound,
+  resolveListDeadline,
+  SKIPPED_SERVERS_META_KEY,
+} from './fan-out-utils.js';
+
+const clients = [{ name: 'fast' }, { name: 'broken' }, { name: 'slow' }];
+
+describe('fan-out-utils', () => {
+  describe('fanOut', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should ask every backend at once and skip failed and late ones', async () => {
+      const fetch = vi.fn(async (client: { name: string }) => {
+        if (client.name === 'broken') throw new Error('boom');
+        if (client.name === 'slow') await new Promise((resolve) => setTimeout(resolve, 5000));
+        return `${client.name} items`;
+      });
+
+      const pending = fanOut(clients, fetch, () => 1000, 'tools');
+      expect(fetch).toHaveBeenCalledTimes(3);
+      await vi.advanceTimersByTimeAsync(1000);
+      const { results, skipped } = await pending;
+
+      expect(results).toEqual([{ client: clients[0], value: 'fast items' }]);
+      expect(skipped).toEqual([
+        { server: 'broken', reason: 'boom' },
+        { server: 'slow', reason: 'timed out after 1000 ms' },
+      ]);
+      expect(console.error).toHaveBeenCalledWith(
+        'Error fetching tools from broken:',
+        expect.any(Error)
+      );
+    });
+
+    it('should keep the order of the backends in the results', async () => {
+      const delays: Record<string, number> = { fast: 30, broken: 10, slow: 20 };
+      const pending = fanOut(
+        clients,
+        async (client) => {
+          await new Promise((resolve) => setTimeout(resolve, delays[client.name]));
+          return client.name;
+        },
+        () => 1000,
+        'prompts'
+      );
+      await vi.advanceTimersByTimeAsync(30);
+
+      expect((await pending).results.map(({ value }) => value)).toEqual(['fast', 'broken', 'slow']);
+    });
+  });
+
+  describe('resolveListDeadline', () => {
+    it('should use the backend timeout and fall back to the SDK default', () => {
+      expect(resolveListDeadline(30, 5)).toBe(5000);
+      expect(resolveListDeadline(30)).toBe(30000);
+      expect(resolveListDeadline()).toBe(60000);
+    });
+  });
+
+  describe('buildSkippedMeta', () => {
+    it('should only add _meta when a backend was skipped', () => {
+      expect(buildSkippedMeta([])).toEqual({});
+      expect(buildSkippedMeta([{ server: 'a', reason: 'boom' }])).toEqual({
+        _meta: { [SKIPPED_SERVERS_META_KEY]: [{ server: 'a', reason: 'boom' }] },
+      });
+    });
+  });
+
+  describe('ignoreMethodNotFound', () => {
+    it('should treat an unimplemented list method as an empty list', async () => {
+      const notFound = new McpError(ErrorCode.MethodNotFound, 'Method not found');
+
+      await expect(ignoreMethodNotFound(Promise.reject(notFound))).resolves.toEqual([]);
+      await expect(ignoreMethodNotFound(Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    });
+  });
+});
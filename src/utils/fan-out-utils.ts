@@ -0,0 +1,110 @@
+import { DEFAULT_REQUEST_TIMEOUT_MSEC } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { resolveTimeoutOptions } from './timeout-utils.js';
+
+/**
+ * Key under `_meta` of an aggregated list result that names the backends left out of it
+ */
+export const SKIPPED_SERVERS_META_KEY = 'mcp-proxy-hub/skippedServers';
+
+/**
+ * A backend left out of an aggregated result
+ */
+export interface SkippedServer {
+  server: string;
+  reason: string;
+}
+
+/**
+ * Outcome of asking every backend for the same thing
+ */
+export interface FanOutResult<C, T> {
+  /** Answers of the backends that replied in time, in the order the backends were given */
+  results: Array<{ client: C; value: T }>;
+  skipped: SkippedServer[];
+}
+
+/**
+ * Resolves how long a backend may take to answer a list request: its request
+ * timeout, or the MCP SDK default when no timeout is configured
+ */
+export function resolveListDeadline(globalSec?: number, perServerSec?: number): number {
+  return resolveTimeoutOptions(globalSec, perServerSec)?.timeout ?? DEFAULT_REQUEST_TIMEOUT_MSEC;
+}
+
+/**
+ * Asks all backends at once so that a slow backend only delays its own part.
+ * A backend that fails or misses its deadline is logged and reported as skipped;
+ * its late answer is discarded.
+ *
+ * @param clients The backends to ask
+ * @param fetch Asks a single backend
+ * @param deadlineMs How long a backend may take, in milliseconds
+ * @param label Names what is fetched in log messages, e.g. "resources"
+ */
+export async function fanOut<C extends { name: string }, T>(
+  clients: C[],
+  fetch: (client: C) => Promise<T>,
+  deadlineMs: (client: C) => number,
+  label: string
+): Promise<FanOutResult<C, T>> {
+  const outcomes = await Promise.all(
+    clients.map(async (client): Promise<{ client: C; value: T } | { skipped: SkippedServer }> => {
+      const deadline = deadlineMs(client);
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${deadline} ms`)), deadline);
+      });
+
+      try {
+        const value = await Promise.race([fetch(client), timedOut]);
+        return { client, value };
+      } catch (error) {
+        console.error(`Error fetching ${label} from ${client.name}:`, error);
+        const reason = error instanceof Error ? error.message : String(error);
+        return { skipped: { server: client.name, reason } };
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+
+  const result: FanOutResult<C, T> = { results: [], skipped: [] };
+  for (const outcome of outcomes) {
+    if ('skipped' in outcome) {
+      result.skipped.push(outcome.skipped);
+    } else {
+      result.results.push(outcome);
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds the `_meta` to spread into an aggregated result, empty when no backend was skipped
+ */
+export function buildSkippedMeta(skipped: SkippedServer[]): {
+  _meta?: { [SKIPPED_SERVERS_META_KEY]: SkippedServer[] };
+} {
+  return skipped.length > 0 ? { _meta: { [SKIPPED_SERVERS_META_KEY]: skipped } } : {};
+}
+
+/**
+ * Treats a backend that does not implement a list method, e.g. a server
+ * without prompts asked for its prompt list, as having nothing to list
+ */
+export async function ignoreMethodNotFound<T>(list: Promise<T[]>): Promise<T[]> {
+  try {
+    return await list;
+  } catch (error) {
+    const isMethodNotFound =
+      typeof error === 'object' &&
+      error !== null &&
+      'code' in error &&
+      error.code === ErrorCode.MethodNotFound;
+    if (isMethodNotFound) {
+      return [];
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildJsonLocationIndex,
+  findJsonLocation,
+  locateJsonParseError,
+} from './json-location-utils.js';
+
+describe('json-location-utils', () => {
+  const text = [
+    '{',
+    '  "mcpServers": {',
+    '    "github": {',
+    '      "type": "http",',
+    '      "args": ["a", "b"]',
+    '    }',
+    '  },',
+    '  "timeout": 30',
+    '}',
+  ].join('\n');
+
+  describe('buildJsonLocationIndex', () => {
+    it('should index object properties at their key', () => {
+      const index = buildJsonLocationIndex(text);
+      expect(index.get('mcpServers')).toEqual({ line: 2, column: 3 });
+      expect(index.get('timeout')).toEqual({ line: 8, column: 3 });
+    });
+
+    it('should return a partial index for malformed JSON', () => {
+      const index = buildJsonLocationIndex('{\n  "a": 1,\n  "b": }');
+      expect(index.get('a')).toEqual({ line: 2, column: 3 });
+    });
+  });
+
+  describe('findJsonLocation', () => {
+    it('should find nested properties', () => {
+      expect(findJsonLocation(text, ['mcpServers', 'github', 'type'])).toEqual({
+        line: 4,
+        column: 7,
+      });
+    });
+
+    it('should find array elements', () => {
+      expect(findJsonLocation(text, ['mcpServers', 'github', 'args', 1])).toEqual({
+        line: 5,
+        column: 21,
+      });
+    });
+
+    it('should fall back to the nearest existing ancestor', () => {
+      expect(findJsonLocation(text, ['mcpServers', 'github', 'command'])).toEqual({
+        line: 3,
+        column: 5,
+      });
+    });
+
+    it('should handle escaped characters in keys and strings', () => {
+      const escaped = '{"a\\"b": "x\\\\", "c": 1}';
+      expect(findJsonLocation(escaped, ['a"b'])).toEqual({ line: 1, column: 2 });
+      expect(findJsonLocation(escaped, ['c'])).toEqual({ line: 1, column: 17 });
+    });
+  });
+
+  describe('locateJsonParseError', () => {
+    it('should convert the error position into a line and column', () => {
+      const broken = '{\n  "a": {,}\n}';
+      let error: unknown;
+      try {
+        JSON.parse(broken);
+      } catch (e) {
+        error = e;
+      }
+      expect(locateJsonParseError(broken, error)).toEqual({ line: 2, column: 9 });
+    });
+
+    it('should return undefined when the message has no position', () => {
+      expect(locateJsonParseError('{', new Error('Unexpected end of JSON input'))).toBeUndefined();
+      expect(locateJsonParseError('{', 'not an error')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Utilities for mapping JSON paths and parse errors back to line/column positions
+ * in the original source text, so config problems can be reported precisely.
+ */
+
+export type JsonPath = (string | number)[];
+
+export type JsonLocation = {
+  line: number;
+  column: number;
+};
+
+/**
+ * Builds the lookup key used by the location index for a path
+ */
+function toPathKey(path: JsonPath): string {
+  return path.map(String).join('\u0000');
+}
+
+/**
+ * Computes the offsets at which every line starts
+ */
+function computeLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * Converts a character offset into a 1-based line/column location
+ */
+function offsetToLocation(lineStarts: number[], offset: number): JsonLocation {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * Indexes the position of every value in a JSON document.
+ * Object properties are indexed at their key so that messages point at the
+ * line a user would edit; array elements are indexed at the element itself.
+ * Parsing stops silently on malformed input, leaving a partial index.
+ */
+export function buildJsonLocationIndex(text: string): Map<string, JsonLocation> {
+  const index = new Map<string, JsonLocation>();
+  const lineStarts = computeLineStarts(text);
+  let pos = 0;
+
+  const record = (path: JsonPath, offset: number) => {
+    const key = toPathKey(path);
+    if (!index.has(key)) {
+      index.set(key, offsetToLocation(lineStarts, offset));
+    }
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    pos++; // closing quote
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const skipLiteral = () => {
+    while (pos < text.length && /[^\s,\]}]/.test(text[pos])) {
+      pos++;
+    }
+  };
+
+  const readValue = (path: JsonPath): void => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      while (pos < text.length && text[pos] !== '}') {
+        if (text[pos] !== '"') throw new Error('Malformed JSON');
+        const keyOffset = pos;
+        const key = readString();
+        record([...path, key], keyOffset);
+        skipWhitespace();
+        if (text[pos] !== ':') throw new Error('Malformed JSON');
+        pos++;
+        readValue([...path, key]);
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+      return;
+    }
+
+    if (char === '[') {
+      pos++;
+      skipWhitespace();
+      let i = 0;
+      while (pos < text.length && text[pos] !== ']') {
+        skipWhitespace();
+        record([...path, i], pos);
+        readValue([...path, i]);
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+        }
+        skipWhitespace();
+        i++;
+      }
+      pos++;
+      return;
+    }
+
+    if (char === '"') {
+      readString();
+      return;
+    }
+
+    if (pos >= text.length) throw new Error('Malformed JSON');
+    skipLiteral();
+  };
+
+  try {
+    skipWhitespace();
+    record([], pos);
+    readValue([]);
+  } catch {
+    // Return whatever was indexed before the malformed section
+  }
+
+  return index;
+}
+
+/**
+ * Finds the location of a path in a JSON document.
+ * Falls back to the nearest ancestor that exists, which is where a missing
+ * property would have to be added.
+ */
+export function findJsonLocation(
+  text: string,
+  path: JsonPath,
+  index: Map<string, JsonLocation> = buildJsonLocationIndex(text)
+): JsonLocation | undefined {
+  for (let length = path.length; length >= 0; length--) {
+    const location = index.get(toPathKey(path.slice(0, length)));
+    if (location) {
+      return location;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the location of a JSON.parse syntax error from its message
+ */
+export function locateJsonParseError(text: string, error: unknown): JsonLocation | undefined {
+  if (!(error instanceof Error)) return undefined;
+
+  const match = /at position (\d+)/.exec(error.message);
+  if (!match) return undefined;
+
+  return offsetToLocation(computeLineStarts(text), Number(match[1]));
+}
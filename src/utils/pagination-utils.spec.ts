@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchAllPages } from './pagination-utils.js';
+
+describe('pagination-utils', () => {
+  describe('fetchAllPages', () => {
+    it('should follow cursors until the last page', async () => {
+      const pages: Record<string, { tools: string[]; nextCursor?: string }> = {
+        first: { tools: ['a', 'b'], nextCursor: 'p2' },
+        p2: { tools: ['c'], nextCursor: 'p3' },
+        p3: { tools: ['d'] },
+      };
+      const fetchPage = vi.fn(async (cursor?: string) => pages[cursor ?? 'first']);
+
+      const items = await fetchAllPages('tools', fetchPage, 'tools from test');
+
+      expect(items).toEqual(['a', 'b', 'c', 'd']);
+      expect(fetchPage.mock.calls).toEqual([[undefined], ['p2'], ['p3']]);
+    });
+
+    it('should stop at the page cap', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      let page = 0;
+      const fetchPage = vi.fn(async () => ({ tools: [page], nextCursor: `p${++page}` }));
+
+      const items = await fetchAllPages('tools', fetchPage, 'tools from test', 3);
+
+      expect(items).toEqual([0, 1, 2]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(warnSpy).toHaveBeenCalledWith('Stopped listing tools from test after 3 pages');
+      warnSpy.mockRestore();
+    });
+
+    it('should stop when a backend repeats a cursor', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchPage = vi.fn(async () => ({ prompts: ['same'], nextCursor: 'again' }));
+
+      const items = await fetchAllPages('prompts', fetchPage, 'prompts from test');
+
+      expect(items).toEqual(['same', 'same']);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledWith(
+        'Stopped listing prompts from test: cursor again was returned twice'
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should treat a page without the item field as empty', async () => {
+      const items = await fetchAllPages('resources', async () => ({}), 'resources from test');
+
+      expect(items).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Upper bound on the pages read from one backend for a single list request,
+ * so that a backend which keeps handing out cursors cannot stall the hub
+ */
+export const MAX_LIST_PAGES = 100;
+
+/**
+ * Reads every page of a paginated backend list and returns the items in order.
+ *
+ * The hub answers list requests with the complete aggregated list, so cursors
+ * never leave the hub. Reading stops early, with a warning, when the page cap
+ * is reached or the backend hands out a cursor it has already returned.
+ *
+ * @param key The result field holding the items, e.g. "tools"
+ * @param fetchPage Requests one page; receives undefined for the first page
+ * @param label Describes the list in warnings, e.g. "tools from github"
+ * @param maxPages Maximum number of pages to read
+ */
+export async function fetchAllPages<
+  K extends string,
+  P extends { [key in K]?: unknown[] } & { nextCursor?: string },
+>(
+  key: K,
+  fetchPage: (cursor: string | undefined) => Promise<P>,
+  label: string,
+  maxPages: number = MAX_LIST_PAGES
+): Promise<NonNullable<P[K]>[number][]> {
+  const items: NonNullable<P[K]>[number][] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage(cursor);
+    const pageItems = result[key];
+    if (Array.isArray(pageItems)) {
+      items.push(...pageItems);
+    }
+
+    cursor = result.nextCursor;
+    if (cursor === undefined) {
+      return items;
+    }
+    if (seenCursors.has(cursor)) {
+      console.warn(`Stopped listing ${label}: cursor ${cursor} was returned twice`);
+      return items;
+    }
+    seenCursors.add(cursor);
+  }
+
+  console.warn(`Stopped listing ${label} after ${maxPages} pages`);
+  return items;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildUpstreamRequestOptions } from './request-options-utils.js';
+
+describe('request-options-utils', () => {
+  describe('buildUpstreamRequestOptions', () => {
+    it('should return the timeout options as-is without a downstream request', () => {
+      expect(buildUpstreamRequestOptions(undefined, 'token')).toBeUndefined();
+      expect(buildUpstreamRequestOptions({ timeout: 5000 }, 'token')).toEqual({ timeout: 5000 });
+    });
+
+    it('should cancel the upstream request along with the downstream one', () => {
+      const controller = new AbortController();
+      const downstream = {
+        sendNotification: vi.fn(),
+        sendRequest: vi.fn(),
+        signal: controller.signal,
+      };
+
+      const options = buildUpstreamRequestOptions({ timeout: 5000 }, undefined, downstream);
+
+      expect(options).toEqual({ timeout: 5000, signal: controller.signal });
+      expect(options?.onprogress).toBeUndefined();
+    });
+
+    it('should relay progress under the downstream progress token', () => {
+      const downstream = {
+        sendNotification: vi.fn().mockResolvedValue(undefined),
+        sendRequest: vi.fn(),
+        signal: new AbortController().signal,
+      };
+
+      const options = buildUpstreamRequestOptions({ timeout: 5000 }, 'client-token', downstream);
+      expect(options?.timeout).toBe(5000);
+
+      options?.onprogress?.({ progress: 1, total: 2, message: 'half way' });
+
+      expect(downstream.sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progress: 1, total: 2, message: 'half way', progressToken: 'client-token' },
+      });
+    });
+
+    it('should swallow failures to relay progress', async () => {
+      const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+      const error = new Error('Not connected');
+      const downstream = {
+        sendNotification: vi.fn().mockRejectedValue(error),
+        sendRequest: vi.fn(),
+        signal: new AbortController().signal,
+      };
+
+      buildUpstreamRequestOptions(undefined, 7, downstream)?.onprogress?.({ progress: 1 });
+      await vi.waitFor(() =>
+        expect(debugSpy).toHaveBeenCalledWith('Failed to relay progress for token 7:', error)
+      );
+
+      debugSpy.mockRestore();
+    });
+  });
+});
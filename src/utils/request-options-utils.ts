@@ -0,0 +1,53 @@
+import { RequestHandlerExtra, RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * The downstream request a handler is serving, as far as forwarding it upstream is concerned
+ */
+export type DownstreamContext = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  'sendNotification' | 'sendRequest' | 'signal'
+>;
+
+/**
+ * Builds the options for a request forwarded to a backend.
+ *
+ * The upstream request is tied to the downstream one: when the client cancels,
+ * the SDK aborts the upstream request and sends `notifications/cancelled` to
+ * the backend. When the client asked for progress, the SDK gives the upstream
+ * request a progress token of its own; progress reported by the backend is
+ * relayed to the client under the token the client chose.
+ *
+ * @param timeoutOptions Resolved timeout for the backend
+ * @param progressToken Token from the downstream request's `_meta`
+ * @param downstream The downstream request, if known
+ * @returns The options, or undefined when there is nothing to set
+ */
+export function buildUpstreamRequestOptions(
+  timeoutOptions: { timeout: number } | undefined,
+  progressToken: ProgressToken | undefined,
+  downstream?: DownstreamContext
+): RequestOptions | undefined {
+  if (!downstream) {
+    return timeoutOptions;
+  }
+
+  const options: RequestOptions = { ...timeoutOptions, signal: downstream.signal };
+  if (progressToken !== undefined) {
+    options.onprogress = (progress) => {
+      downstream
+        .sendNotification({
+          method: 'notifications/progress',
+          params: { ...progress, progressToken },
+        })
+        .catch((error) => {
+          console.debug(`Failed to relay progress for token ${progressToken}:`, error);
+        });
+    };
+  }
+  return options;
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_OPTIONS, resolveRetryOptions } from './retry-utils.js';
+
+describe('resolveRetryOptions', () => {
+  it('should return the defaults when nothing is configured', () => {
+    expect(resolveRetryOptions()).toEqual(DEFAULT_RETRY_OPTIONS);
+  });
+
+  it('should apply global values', () => {
+    expect(resolveRetryOptions({ retries: 5, factor: 2 })).toEqual({
+      ...DEFAULT_RETRY_OPTIONS,
+      retries: 5,
+      factor: 2,
+    });
+  });
+
+  it('should let per-server values override global values', () => {
+    expect(
+      resolveRetryOptions({ retries: 5, initialDelayMs: 1000 }, { retries: 10, jitter: 0.5 })
+    ).toEqual({
+      ...DEFAULT_RETRY_OPTIONS,
+      retries: 10,
+      initialDelayMs: 1000,
+      jitter: 0.5,
+    });
+  });
+});
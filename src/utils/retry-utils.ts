@@ -0,0 +1,33 @@
+import { RetryConfig } from '../config.js';
+import { BackoffOptions } from './backoff-utils.js';
+
+export type RetryOptions = BackoffOptions & {
+  /** Total number of connection attempts */
+  retries: number;
+};
+
+/**
+ * Defaults matching the historical behaviour: three attempts, 2.5 seconds apart
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  initialDelayMs: 2500,
+  maxDelayMs: 30_000,
+  factor: 1,
+  jitter: 0,
+};
+
+/**
+ * Resolves connection retry options: per-server values override global ones,
+ * which override the defaults.
+ */
+export function resolveRetryOptions(
+  globalConfig?: RetryConfig,
+  serverConfig?: RetryConfig
+): RetryOptions {
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...globalConfig,
+    ...serverConfig,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeToolConflicts,
+  findToolConflicts,
+  namespaceToolName,
+  resolveToolConflicts,
+  ServerTools,
+} from './tool-conflict-utils.js';
+
+type Backend = { name: string };
+
+const serverTools = (name: string, ...tools: string[]): ServerTools<Backend> => ({
+  client: { name },
+  tools: tools.map((tool) => ({
+    tool: { name: tool, inputSchema: { type: 'object' } },
+    originalName: tool,
+  })),
+});
+
+const namesOf = (result: ServerTools<Backend>[]) =>
+  result.map(({ client, tools }) => [client.name, tools.map(({ tool }) => tool.name)]);
+
+describe('tool-conflict-utils', () => {
+  const backends = [
+    serverTools('a', 'search', 'read'),
+    serverTools('b', 'search', 'write'),
+    serverTools('c', 'search'),
+  ];
+
+  it('should namespace a tool name with a prefix', () => {
+    expect(namespaceToolName('search', 'github')).toBe('github__search');
+    expect(namespaceToolName('search')).toBe('search');
+  });
+
+  it('should find names exposed by more than one server', () => {
+    const conflicts = findToolConflicts(backends);
+
+    expect(conflicts).toEqual([{ tool: 'search', servers: ['a', 'b', 'c'] }]);
+    expect(describeToolConflicts(conflicts)).toBe('search (a, b, c)');
+  });
+
+  it('should keep the tool of the first server with first-wins', () => {
+    const { serverTools: resolved, conflicts } = resolveToolConflicts(backends, 'first-wins');
+
+    expect(namesOf(resolved)).toEqual([
+      ['a', ['search', 'read']],
+      ['b', ['write']],
+      ['c', []],
+    ]);
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('should leave every conflicting tool out with error', () => {
+    const { serverTools: resolved } = resolveToolConflicts(backends, 'error');
+
+    expect(namesOf(resolved)).toEqual([
+      ['a', ['read']],
+      ['b', ['write']],
+      ['c', []],
+    ]);
+  });
+
+  it('should prefix conflicting tools with their server name with prefix-on-conflict', () => {
+    const { serverTools: resolved } = resolveToolConflicts(backends, 'prefix-on-conflict');
+
+    expect(namesOf(resolved)).toEqual([
+      ['a', ['a__search', 'read']],
+      ['b', ['b__search', 'write']],
+      ['c', ['c__search']],
+    ]);
+    expect(resolved[1].tools[0].originalName).toBe('search');
+  });
+
+  it('should resolve names that still collide after prefixing as first-wins', () => {
+    const { serverTools: resolved, conflicts } = resolveToolConflicts(
+      [serverTools('a', 'x', 'b__x'), serverTools('b', 'x')],
+      'prefix-on-conflict'
+    );
+
+    expect(namesOf(resolved)).toEqual([
+      ['a', ['a__x', 'b__x']],
+      ['b', []],
+    ]);
+    expect(conflicts).toEqual([
+      { tool: 'x', servers: ['a', 'b'] },
+      { tool: 'b__x', servers: ['a', 'b'] },
+    ]);
+  });
+
+  it('should count tools of one server exposed by the same name as conflicts', () => {
+    const duplicates = [
+      {
+        client: { name: 'a' },
+        tools: [
+          {
+            tool: { name: 'remove', inputSchema: { type: 'object' as const } },
+            originalName: 'delete_user',
+          },
+          {
+            tool: { name: 'remove', inputSchema: { type: 'object' as const } },
+            originalName: 'delete_repo',
+          },
+        ],
+      },
+      serverTools('b', 'read'),
+    ];
+
+    expect(findToolConflicts(duplicates)).toEqual([{ tool: 'remove', servers: ['a', 'a'] }]);
+    expect(namesOf(resolveToolConflicts(duplicates, 'error').serverTools)).toEqual([
+      ['a', []],
+      ['b', ['read']],
+    ]);
+    const firstWins = resolveToolConflicts(duplicates, 'first-wins').serverTools;
+    expect(firstWins[0].tools.map(({ originalName }) => originalName)).toEqual(['delete_user']);
+  });
+
+  it('should leave tools alone when nothing conflicts', () => {
+    const unique = [serverTools('a', 'read'), serverTools('b', 'write')];
+
+    expect(resolveToolConflicts(unique, 'error')).toEqual({ serverTools: unique, conflicts: [] });
+  });
+});
@@ -0,0 +1,132 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolConflictPolicy } from '../config.js';
+
+/**
+ * Separates a namespace prefix from the tool name, e.g. `github__create_issue`
+ */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/**
+ * Key under `_meta` of a tool list result that names the tools exposed by more than one backend
+ */
+export const TOOL_CONFLICTS_META_KEY = 'mcp-proxy-hub/toolConflicts';
+
+/**
+ * A backend tool under the name the hub exposes it by
+ */
+export interface RoutedTool {
+  tool: Tool;
+  /** The name the backend knows the tool by */
+  originalName: string;
+}
+
+/**
+ * The tools one backend exposes through the hub
+ */
+export interface ServerTools<C> {
+  client: C;
+  tools: RoutedTool[];
+}
+
+/**
+ * A tool name exposed by more than one tool, of one backend or several
+ */
+export interface ToolConflict {
+  tool: string;
+  /** The backend of each tool exposing the name, in the order they were given */
+  servers: string[];
+}
+
+/**
+ * Prepends a namespace prefix to a tool name
+ */
+export function namespaceToolName(name: string, prefix?: string): string {
+  return prefix ? `${prefix}${TOOL_NAMESPACE_SEPARATOR}${name}` : name;
+}
+
+/**
+ * Finds the tool names exposed by more than one tool, including several tools
+ * of one backend renamed to the same name
+ */
+export function findToolConflicts<C extends { name: string }>(
+  serverTools: ServerTools<C>[]
+): ToolConflict[] {
+  const serversByTool = new Map<string, string[]>();
+  for (const { client, tools } of serverTools) {
+    for (const { tool } of tools) {
+      serversByTool.set(tool.name, [...(serversByTool.get(tool.name) ?? []), client.name]);
+    }
+  }
+
+  return Array.from(serversByTool, ([tool, servers]) => ({ tool, servers })).filter(
+    ({ servers }) => servers.length > 1
+  );
+}
+
+/**
+ * Describes conflicts for log and error messages, e.g. "search (a, b)"
+ */
+export function describeToolConflicts(conflicts: ToolConflict[]): string {
+  return conflicts.map(({ tool, servers }) => `${tool} (${servers.join(', ')})`).join('; ');
+}
+
+/**
+ * Gets the tool name conflicts reported under `_meta` of a tool list result
+ */
+export function getReportedToolConflicts(meta?: { [key: string]: unknown }): ToolConflict[] {
+  const conflicts = meta?.[TOOL_CONFLICTS_META_KEY];
+  // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+  return Array.isArray(conflicts) ? (conflicts as ToolConflict[]) : [];
+}
+
+/**
+ * Makes every exposed tool name unique according to the conflict policy:
+ * - `error` leaves every conflicting tool out
+ * - `first-wins` keeps the tool given first
+ * - `prefix-on-conflict` prefixes each conflicting tool with its server name;
+ *   names that still collide after that are resolved as `first-wins`
+ *
+ * @returns The tools to expose and the conflicts found
+ */
+export function resolveToolConflicts<C extends { name: string }>(
+  serverTools: ServerTools<C>[],
+  policy: ToolConflictPolicy
+): { serverTools: ServerTools<C>[]; conflicts: ToolConflict[] } {
+  const conflicts = findToolConflicts(serverTools);
+  if (conflicts.length === 0) {
+    return { serverTools, conflicts };
+  }
+
+  const conflicting = new Set(conflicts.map(({ tool }) => tool));
+  const kept = new Set<string>();
+  const resolve = (client: C, { tool, originalName }: RoutedTool): RoutedTool[] => {
+    if (!conflicting.has(tool.name)) {
+      return [{ tool, originalName }];
+    }
+    switch (policy) {
+      case 'error':
+        return [];
+      case 'first-wins':
+        if (kept.has(tool.name)) {
+          return [];
+        }
+        kept.add(tool.name);
+        return [{ tool, originalName }];
+      case 'prefix-on-conflict':
+        return [
+          { tool: { ...tool, name: namespaceToolName(tool.name, client.name) }, originalName },
+        ];
+    }
+  };
+
+  const resolved = serverTools.map(({ client, tools }) => ({
+    client,
+    tools: tools.flatMap((routedTool) => resolve(client, routedTool)),
+  }));
+
+  if (policy !== 'prefix-on-conflict') {
+    return { serverTools: resolved, conflicts };
+  }
+  const remaining = resolveToolConflicts(resolved, 'first-wins');
+  return { serverTools: remaining.serverTools, conflicts: [...conflicts, ...remaining.conflicts] };
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findToolMapping,
+  isGlobPattern,
+  isRegexPattern,
+  matchesAnyToolPattern,
+  matchesToolPattern,
+  renameByToolPatterns,
+  toolPatternToRegExp,
+} from './tool-pattern-utils.js';
+
+describe('tool-pattern-utils', () => {
+  it('should tell regular expressions, globs and names apart', () => {
+    expect(isRegexPattern('/^git_/')).toBe(true);
+    expect(isRegexPattern('/^git_/i')).toBe(true);
+    expect(isRegexPattern('delete_*')).toBe(false);
+    expect(isGlobPattern('delete_*')).toBe(true);
+    expect(isGlobPattern('get_?')).toBe(true);
+    expect(isGlobPattern('/a*/')).toBe(false);
+    expect(isGlobPattern('read_file')).toBe(false);
+  });
+
+  it('should match exact names only when the pattern has no wildcards', () => {
+    expect(matchesToolPattern('read_file', 'read_file')).toBe(true);
+    expect(matchesToolPattern('read_file_v2', 'read_file')).toBe(false);
+    expect(matchesToolPattern('readXfile', 'read.file')).toBe(false);
+  });
+
+  it('should match globs against the whole name', () => {
+    expect(matchesToolPattern('delete_repo', 'delete_*')).toBe(true);
+    expect(matchesToolPattern('force_delete_repo', 'delete_*')).toBe(false);
+    expect(matchesToolPattern('get_a', 'get_?')).toBe(true);
+    expect(matchesToolPattern('get_ab', 'get_?')).toBe(false);
+  });
+
+  it('should match regular expressions anywhere unless anchored', () => {
+    expect(matchesToolPattern('git_push', '/^git_(push|reset)/')).toBe(true);
+    expect(matchesToolPattern('git_pull', '/^git_(push|reset)/')).toBe(false);
+    expect(matchesToolPattern('my_admin_tool', '/admin/')).toBe(true);
+    expect(matchesToolPattern('ADMIN', '/admin/i')).toBe(true);
+  });
+
+  it('should match the same name repeatedly with a global regular expression', () => {
+    expect(matchesToolPattern('admin', '/admin/g')).toBe(true);
+    expect(matchesToolPattern('admin', '/admin/g')).toBe(true);
+  });
+
+  it('should match nothing with a regular expression that does not compile', () => {
+    expect(() => toolPatternToRegExp('/[/')).toThrow();
+    expect(matchesToolPattern('[', '/[/')).toBe(false);
+  });
+
+  it('should match rename entries by their original pattern', () => {
+    const entries = ['read_*', { original: '/^gh_/', exposed: 'github_' }];
+
+    expect(matchesAnyToolPattern('read_file', entries)).toBe(true);
+    expect(matchesAnyToolPattern('gh_search', entries)).toBe(true);
+    expect(matchesAnyToolPattern('write_file', entries)).toBe(false);
+  });
+
+  it('should rename by the first matching rename entry', () => {
+    const entries = [
+      'gh_search',
+      { original: 'gh_search', exposed: 'search' },
+      { original: '/^gh_(.*)$/', exposed: 'github_$1' },
+      { original: 'git_*_*', exposed: 'vcs_*_*' },
+    ];
+
+    expect(renameByToolPatterns('gh_search', entries)).toBe('search');
+    expect(renameByToolPatterns('gh_issues', entries)).toBe('github_issues');
+    expect(renameByToolPatterns('git_push_tags', entries)).toBe('vcs_push_tags');
+    expect(renameByToolPatterns('read_file', entries)).toBeUndefined();
+  });
+
+  it('should find the first mapping whose original pattern matches', () => {
+    const mapping = { original: 'gh_*', exposed: 'gh_*', description: 'GitHub tool' };
+
+    expect(findToolMapping('gh_search', ['gh_search', mapping])).toBe(mapping);
+    expect(findToolMapping('search', ['gh_search', mapping])).toBeUndefined();
+  });
+});
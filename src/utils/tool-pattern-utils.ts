@@ -0,0 +1,112 @@
+import { ExposedTool, ToolMapping } from '../config.js';
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+const compiled = new Map<string, RegExp>();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Checks whether a tool name pattern is a regular expression, e.g. `/^git_(push|reset)/`
+ */
+export function isRegexPattern(pattern: string): boolean {
+  return REGEX_PATTERN.test(pattern);
+}
+
+/**
+ * Checks whether a tool name pattern is a glob, e.g. `delete_*`
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return !isRegexPattern(pattern) && /[*?]/.test(pattern);
+}
+
+/**
+ * Gets the regular expression a tool name pattern stands for:
+ * - `/source/flags` is a regular expression, matched anywhere in the name unless anchored
+ * - a pattern with `*` (any characters) or `?` (one character) is a glob matching the whole name
+ * - anything else matches exactly that name
+ *
+ * Every `*` and `?` of a glob is a capture group, so renames can reuse the matched parts.
+ * @throws When a regular expression does not compile
+ */
+export function toolPatternToRegExp(pattern: string): RegExp {
+  const cached = compiled.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let regExp: RegExp;
+  const regexMatch = REGEX_PATTERN.exec(pattern);
+  if (regexMatch) {
+    regExp = new RegExp(regexMatch[1], regexMatch[2]);
+  } else {
+    const source = pattern
+      .split(/([*?])/)
+      .map((part) => (part === '*' ? '(.*)' : part === '?' ? '(.)' : escapeRegExp(part)))
+      .join('');
+    regExp = new RegExp(`^${source}$`);
+  }
+
+  compiled.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Checks whether a tool name matches a pattern; see toolPatternToRegExp.
+ * A regular expression that does not compile matches nothing.
+ */
+export function matchesToolPattern(toolName: string, pattern: string): boolean {
+  try {
+    const regExp = toolPatternToRegExp(pattern);
+    regExp.lastIndex = 0;
+    return regExp.test(toolName);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a tool name matches any entry of exposedTools or hiddenTools.
+ * Rename entries match by their `original` pattern.
+ */
+export function matchesAnyToolPattern(toolName: string, entries: ExposedTool[]): boolean {
+  return entries.some((entry) =>
+    matchesToolPattern(toolName, typeof entry === 'string' ? entry : entry.original)
+  );
+}
+
+/**
+ * Finds the first mapping entry of exposedTools whose `original` pattern matches a tool
+ */
+export function findToolMapping(toolName: string, entries: ExposedTool[]): ToolMapping | undefined {
+  for (const entry of entries) {
+    if (typeof entry !== 'string' && matchesToolPattern(toolName, entry.original)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the name a tool is exposed by under its mapping in exposedTools, or
+ * undefined when it has no mapping.
+ *
+ * The `exposed` name of a regular expression may refer to its groups like
+ * String.replace, e.g. `$1`; each `*` and `?` in the `exposed` name of a glob
+ * is replaced with what the corresponding `*` or `?` matched.
+ */
+export function renameByToolPatterns(toolName: string, entries: ExposedTool[]): string | undefined {
+  const mapping = findToolMapping(toolName, entries);
+  if (!mapping) {
+    return undefined;
+  }
+  if (isRegexPattern(mapping.original)) {
+    return toolName.replace(toolPatternToRegExp(mapping.original), mapping.exposed);
+  }
+  if (isGlobPattern(mapping.original)) {
+    const captures = toolPatternToRegExp(mapping.original).exec(toolName)?.slice(1) ?? [];
+    let index = 0;
+    return mapping.exposed.replace(/[*?]/g, (wildcard) => captures[index++] ?? wildcard);
+  }
+  return mapping.exposed;
+}